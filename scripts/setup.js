@@ -38,7 +38,7 @@ Place your CSV data files in this directory. The agent expects the following fil
 - \`ai.testSourceData.csv\` / \`ai.controlSourceData.csv\`
 - \`ai.testAtom.csv\` / \`ai.controlAtoms.csv\`
 
-The test files are used for the current analysis, while the control files represent historical data for comparison.
+The test files are used for the current analysis. The control files hold the control group of an experiment and are only loaded in experiment mode, where the two groups are compared.
 `;
 
 fs.writeFileSync(inputReadmePath, inputReadmeContent);
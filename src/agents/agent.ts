@@ -3,8 +3,17 @@ import {
   loadData,
   validateData,
   analyzeMetrics,
+  analyzeAttribution,
+  analyzeDrillDown,
   analyzeConversions,
+  analyzeConversionLag,
   analyzeChannels,
+  analyzeExperiment,
+  analyzeCohorts,
+  analyzeCustomerValue,
+  detectAnomalies,
+  forecastMetrics,
+  recommendBudget,
   suggestDataImprovements,
   suggestReportingImprovements,
   generateSummary,
@@ -12,59 +21,57 @@ import {
   handleError,
 } from "./nodes";
 import { RunnableLambda } from "@langchain/core/runnables";
+import {
+  AnomalyAnalysis,
+  AttributionAnalysis,
+  BudgetRecommendations,
+  DataSet,
+  DataValidationResult,
+  DateRange,
+  DedupReport,
+  DrillDownAnalysis,
+  ChannelDistributionAnalysis,
+  CohortAnalysis,
+  ComparisonWindows,
+  CustomerValueAnalysis,
+  ConversionAnalysis,
+  ConversionLagAnalysis,
+  CurrencyConversionReport,
+  DailyBrief,
+  DailySeries,
+  ExperimentAnalysis,
+  ForecastAnalysis,
+  LoadReport,
+  MetricsAnalysis,
+} from "../types";
 
 const MarketingAgentState = Annotation.Root({
   date: Annotation<string>(),
   dataPath: Annotation<string>(),
   dataPrefix: Annotation<"ai.test" | "ai.control">(),
-  testData: Annotation<any>(),
-  controlData: Annotation<any>(),
-  dataValidation: Annotation<{
-    isValid: boolean;
-    issues: string[];
-    suggestions: string[];
-  }>(),
-  metricsAnalysis: Annotation<{
-    roas: {
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-      possibleReasons: string[];
-    };
-    cac: {
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-      possibleReasons: string[];
-    };
-  }>(),
-  conversionAnalysis: Annotation<{
-    stages: {
-      name: string;
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-    }[];
-    insights: string[];
-  }>(),
-  channelDistribution: Annotation<{
-    channels: {
-      name: string;
-      current: {
-        sessions: number;
-        percentage: number;
-      };
-      previous: {
-        sessions: number;
-        percentage: number;
-      };
-      change: number;
-    }[];
-    insights: string[];
-  }>(),
+  experimentMode: Annotation<boolean>(),
+  testData: Annotation<DataSet>(),
+  controlData: Annotation<DataSet>(),
+  historyData: Annotation<DataSet>(),
+  loadReports: Annotation<LoadReport[]>(),
+  dedupReports: Annotation<DedupReport[]>(),
+  loadWindows: Annotation<DateRange[]>(),
+  comparisonWindows: Annotation<ComparisonWindows>(),
+  dailyAggregates: Annotation<DailySeries[]>(),
+  currencyConversion: Annotation<CurrencyConversionReport>(),
+  dataValidation: Annotation<DataValidationResult>(),
+  metricsAnalysis: Annotation<MetricsAnalysis>(),
+  attributionAnalysis: Annotation<AttributionAnalysis>(),
+  drillDown: Annotation<DrillDownAnalysis>(),
+  conversionAnalysis: Annotation<ConversionAnalysis>(),
+  conversionLag: Annotation<ConversionLagAnalysis>(),
+  channelDistribution: Annotation<ChannelDistributionAnalysis>(),
+  experimentAnalysis: Annotation<ExperimentAnalysis>(),
+  cohortAnalysis: Annotation<CohortAnalysis>(),
+  customerValue: Annotation<CustomerValueAnalysis>(),
+  anomalies: Annotation<AnomalyAnalysis>(),
+  forecast: Annotation<ForecastAnalysis>(),
+  budgetRecommendations: Annotation<BudgetRecommendations>(),
   dataQualityImprovements: Annotation<{
     dataCollection: string[];
     attribution: string[];
@@ -75,7 +82,7 @@ const MarketingAgentState = Annotation.Root({
     automations: string[];
   }>(),
   summary: Annotation<string>(),
-  dailyBrief: Annotation<any>(),
+  dailyBrief: Annotation<DailyBrief>(),
   error: Annotation<Error>(),
 });
 
@@ -86,8 +93,17 @@ const Nodes = {
   LOAD_DATA: "load_data",
   VALIDATE_DATA: "validate_data",
   ANALYZE_METRICS: "analyze_metrics",
+  ANALYZE_ATTRIBUTION: "analyze_attribution",
+  ANALYZE_DRILL_DOWN: "analyze_drill_down",
   ANALYZE_CONVERSIONS: "analyze_conversions",
+  ANALYZE_CONVERSION_LAG: "analyze_conversion_lag",
   ANALYZE_CHANNELS: "analyze_channels",
+  ANALYZE_EXPERIMENT: "analyze_experiment",
+  ANALYZE_COHORTS: "analyze_cohorts",
+  ANALYZE_CUSTOMER_VALUE: "analyze_customer_value",
+  DETECT_ANOMALIES: "detect_anomalies",
+  FORECAST_METRICS: "forecast_metrics",
+  RECOMMEND_BUDGET: "recommend_budget",
   SUGGEST_DATA_IMPROVEMENTS: "suggest_data_improvements",
   SUGGEST_REPORTING_IMPROVEMENTS: "suggest_reporting_improvements",
   GENERATE_SUMMARY: "generate_summary",
@@ -114,14 +130,50 @@ export function createMarketingDataAnalysisGraph() {
       Nodes.ANALYZE_METRICS,
       new RunnableLambda({ func: analyzeMetrics })
     )
+    .addNode(
+      Nodes.ANALYZE_ATTRIBUTION,
+      new RunnableLambda({ func: analyzeAttribution })
+    )
+    .addNode(
+      Nodes.ANALYZE_DRILL_DOWN,
+      new RunnableLambda({ func: analyzeDrillDown })
+    )
     .addNode(
       Nodes.ANALYZE_CONVERSIONS,
       new RunnableLambda({ func: analyzeConversions })
     )
+    .addNode(
+      Nodes.ANALYZE_CONVERSION_LAG,
+      new RunnableLambda({ func: analyzeConversionLag })
+    )
     .addNode(
       Nodes.ANALYZE_CHANNELS,
       new RunnableLambda({ func: analyzeChannels })
     )
+    .addNode(
+      Nodes.ANALYZE_EXPERIMENT,
+      new RunnableLambda({ func: analyzeExperiment })
+    )
+    .addNode(
+      Nodes.ANALYZE_COHORTS,
+      new RunnableLambda({ func: analyzeCohorts })
+    )
+    .addNode(
+      Nodes.ANALYZE_CUSTOMER_VALUE,
+      new RunnableLambda({ func: analyzeCustomerValue })
+    )
+    .addNode(
+      Nodes.DETECT_ANOMALIES,
+      new RunnableLambda({ func: detectAnomalies })
+    )
+    .addNode(
+      Nodes.FORECAST_METRICS,
+      new RunnableLambda({ func: forecastMetrics })
+    )
+    .addNode(
+      Nodes.RECOMMEND_BUDGET,
+      new RunnableLambda({ func: recommendBudget })
+    )
     .addNode(
       Nodes.SUGGEST_DATA_IMPROVEMENTS,
       new RunnableLambda({ func: suggestDataImprovements })
@@ -151,14 +203,50 @@ export function createMarketingDataAnalysisGraph() {
       continue: Nodes.ANALYZE_METRICS,
     })
     .addConditionalEdges(Nodes.ANALYZE_METRICS, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_ATTRIBUTION,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_ATTRIBUTION, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_DRILL_DOWN,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_DRILL_DOWN, checkForErrors, {
       error: Nodes.HANDLE_ERROR,
       continue: Nodes.ANALYZE_CONVERSIONS,
     })
     .addConditionalEdges(Nodes.ANALYZE_CONVERSIONS, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_CONVERSION_LAG,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_CONVERSION_LAG, checkForErrors, {
       error: Nodes.HANDLE_ERROR,
       continue: Nodes.ANALYZE_CHANNELS,
     })
     .addConditionalEdges(Nodes.ANALYZE_CHANNELS, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_EXPERIMENT,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_EXPERIMENT, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_COHORTS,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_COHORTS, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.ANALYZE_CUSTOMER_VALUE,
+    })
+    .addConditionalEdges(Nodes.ANALYZE_CUSTOMER_VALUE, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.DETECT_ANOMALIES,
+    })
+    .addConditionalEdges(Nodes.DETECT_ANOMALIES, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.FORECAST_METRICS,
+    })
+    .addConditionalEdges(Nodes.FORECAST_METRICS, checkForErrors, {
+      error: Nodes.HANDLE_ERROR,
+      continue: Nodes.RECOMMEND_BUDGET,
+    })
+    .addConditionalEdges(Nodes.RECOMMEND_BUDGET, checkForErrors, {
       error: Nodes.HANDLE_ERROR,
       continue: Nodes.SUGGEST_DATA_IMPROVEMENTS,
     })
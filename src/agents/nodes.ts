@@ -1,14 +1,70 @@
+import { join } from "path";
 import { AgentNodeFunction, AgentState } from "./types";
-import { loadDataSet } from "../utils/csv-loader";
+import { getDataSourceAdapter } from "../utils/data-sources";
+import { loadExchangeRates, normalizeCurrencies } from "../utils/currency";
 import {
-  checkDataValidity,
-  calculateROAS,
-  calculateCAC,
-  isChangeSigificant,
-  generatePossibleReasons,
+  getDailyAggregateKey,
+  readDailyAggregates,
+  writeDailyAggregates,
+} from "../utils/daily-aggregate-cache";
+import {
+  DEFAULT_DEDUP_KEYS,
+  deduplicateDataSet,
+  parseDedupKeys,
+} from "../utils/deduplication";
+import {
+  checkLoadReports,
+  checkDedupReports,
+  checkCurrencyConversion,
   calculateConversionRates,
   analyzeChannelDistribution,
+  UNATTRIBUTED_CHANNEL,
 } from "../services/data-analysis";
+import {
+  DEFAULT_DATA_QUALITY_RULES,
+  evaluateDataQualityRules,
+  loadDataQualityRules,
+} from "../services/data-quality-rules";
+import {
+  checkDataFreshness,
+  checkFreshnessReport,
+} from "../services/data-freshness";
+import {
+  analyzeAtomIntegrity,
+  checkAtomIntegrity,
+} from "../services/atom-integrity";
+import {
+  checkIdentityCoverage,
+  measureIdentityCoverage,
+  resolveIdentities,
+} from "../services/identity-resolution";
+import { analyzeExperiment as compareExperimentGroups } from "../services/experiment-analysis";
+import {
+  analyzeCohorts as buildCohortTables,
+  DEFAULT_COHORT_AGE_CHECKPOINTS,
+} from "../services/cohort-analysis";
+import { analyzeConversionLag as measureConversionLag } from "../services/conversion-lag";
+import {
+  analyzeCustomerValue as valueCustomers,
+  DEFAULT_LTV_AGE_CHECKPOINTS,
+} from "../services/customer-value";
+import { analyzeAttribution as attributeRevenue } from "../services/attribution";
+import {
+  formatMetricValue,
+  getMetricDefinitions,
+} from "../services/metric-registry";
+import { analyzeDrillDown as drillDownMetrics } from "../services/drill-down";
+import {
+  decomposeMetricChange,
+  explainMetricChange,
+} from "../services/root-cause";
+import { buildDailySeries } from "../services/time-series";
+import { detectAnomalies as findAnomalies } from "../services/anomaly-detection";
+import { forecastMetrics as projectMetrics } from "../services/forecasting";
+import {
+  parseBudgetBounds,
+  recommendBudget as optimizeBudget,
+} from "../services/budget-optimizer";
 import {
   generateDataQualityImprovements,
   generateReportingImprovements,
@@ -17,14 +73,27 @@ import { config } from "../config";
 import { ChatOpenAI } from "@langchain/openai";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { Transaction, SourceData, Session, Lead, Contact } from "../types";
 import {
+  Transaction,
+  SourceData,
+  Session,
+  Lead,
+  Contact,
+  DailySeries,
+  DataSet,
+  MetricChange,
+  AttributionModel,
+  BudgetLevel,
+  DedupKeep,
+  DateRange,
+} from "../types";
+import {
+  addDays,
   calculatePreviousPeriodStartDate,
-  filterTransactionsByDateRange,
-  filterSourceDataByDateRange,
+  filterDataSetByDateRange,
   filterSessionsByDateRange,
-  filterLeadsByDateRange,
-  filterContactsByDateRange,
+  formatDateRange,
+  getComparisonWindows,
 } from "../utils/date-utils";
 import {
   calculateMetricsTrend,
@@ -32,6 +101,84 @@ import {
   calculateChannelsTrend,
 } from "../utils/trend-analysis";
 
+// Days of history loaded before the analysis date, for baselines and forecasts
+const HISTORY_LOOKBACK_DAYS = 30;
+
+// Days cohorts and lifetime value look back over, so clients acquired during
+// the history lookback can reach the last age checkpoint
+const COHORT_LOOKBACK_DAYS =
+  HISTORY_LOOKBACK_DAYS + Math.max(...DEFAULT_COHORT_AGE_CHECKPOINTS);
+const LTV_LOOKBACK_DAYS =
+  HISTORY_LOOKBACK_DAYS + Math.max(...DEFAULT_LTV_AGE_CHECKPOINTS);
+
+// Days of funnel history conversion lags are measured over
+const CONVERSION_LAG_LOOKBACK_DAYS = 90;
+
+/**
+ * Get the days the history-based analyses (experiment, anomalies, forecast,
+ * budget) run over: the loaded window, or the history lookback up to and
+ * including the analysis date when no window was recorded
+ */
+function getAnalysisPeriod(state: AgentState): DateRange {
+  return (
+    state.loadWindows?.[0] ?? {
+      startDate: calculatePreviousPeriodStartDate(
+        state.date,
+        HISTORY_LOOKBACK_DAYS
+      ),
+      endDate: addDays(state.date, 1),
+    }
+  );
+}
+
+/**
+ * Get the daily KPI series anomalies and forecasts run on: the aggregates
+ * cached by loadData, or a series built from the loaded records
+ */
+function getDailySeries(state: AgentState, data: DataSet): DailySeries[] {
+  return (
+    state.dailyAggregates ?? buildDailySeries(data, getAnalysisPeriod(state))
+  );
+}
+
+/**
+ * Get the records a customer analysis (cohorts, lifetime value, conversion
+ * lag) runs over: the loaded history within its lookback, up to and
+ * including the analysis date
+ */
+function getHistoryData(state: AgentState, lookbackDays: number): DataSet {
+  const data = state.historyData ?? state.testData;
+  if (!data) {
+    throw new Error("Data not loaded");
+  }
+
+  return filterDataSetByDateRange(data, {
+    startDate: calculatePreviousPeriodStartDate(state.date, lookbackDays),
+    endDate: addDays(state.date, 1),
+  });
+}
+
+/**
+ * Describe the significance of a change for a prompt, e.g.
+ * "significant, p=0.012, 95% CI of the change 0.10 to 0.45"
+ */
+function describeSignificance(change: MetricChange, unit = ""): string {
+  if (!change.tested) return "not tested, too little data";
+
+  const { lower, upper } = change.confidenceInterval;
+  const confidence = (config.analysis.confidenceLevel * 100).toFixed(0);
+  const interval =
+    Number.isFinite(lower) && Number.isFinite(upper)
+      ? `${confidence}% CI of the change ${lower.toFixed(
+          2
+        )}${unit} to ${upper.toFixed(2)}${unit}`
+      : "not enough data for an interval";
+
+  return `${
+    change.isSignificant ? "significant" : "not significant"
+  }, p=${change.pValue.toFixed(3)}, ${interval}`;
+}
+
 /**
  * Load data from CSV files
  */
@@ -39,11 +186,167 @@ export const loadData: AgentNodeFunction = async (state: AgentState) => {
   try {
     console.log(`Loading data from ${state.dataPath}...`);
 
-    // Log the exact file paths that we're trying to load
-    console.log(`Looking for files with prefix 'test' in ${state.dataPath}`);
+    const adapter = getDataSourceAdapter(config.data.source);
+
+    const { testPrefix, controlPrefix } = config.data;
+
+    // Log the exact source that we're trying to load
+    console.log(
+      `Looking for ${adapter.kind} data with prefix '${testPrefix}' in ${state.dataPath}`
+    );
+
+    // Periods compared by every period-over-period analysis
+    const comparisonWindows = getComparisonWindows(
+      state.date,
+      config.analysis.comparisonMode,
+      config.analysis.historicalDays,
+      {
+        current: config.analysis.currentPeriod,
+        previous: config.analysis.previousPeriod,
+      }
+    );
+
+    console.log(
+      `Comparing ${formatDateRange(
+        comparisonWindows.current
+      )} with ${formatDateRange(comparisonWindows.previous)} (${
+        comparisonWindows.mode
+      })`
+    );
+
+    // Only keep rows in the history and comparison periods
+    const { current, previous } = comparisonWindows;
+    const startDates = [
+      calculatePreviousPeriodStartDate(state.date, HISTORY_LOOKBACK_DAYS),
+      current.startDate,
+      previous.startDate,
+    ];
+    const endDates = [
+      addDays(state.date, 1),
+      current.endDate,
+      previous.endDate,
+    ];
+    const loadWindows = [
+      {
+        startDate: startDates.reduce((a, b) => (a < b ? a : b)),
+        endDate: endDates.reduce((a, b) => (a > b ? a : b)),
+      },
+    ];
+
+    // The test group is loaded further back for the customer analyses
+    const historyStart = calculatePreviousPeriodStartDate(
+      state.date,
+      Math.max(
+        COHORT_LOOKBACK_DAYS,
+        LTV_LOOKBACK_DAYS,
+        CONVERSION_LAG_LOOKBACK_DAYS
+      )
+    );
+    const historyWindow = {
+      startDate:
+        historyStart < loadWindows[0].startDate
+          ? historyStart
+          : loadWindows[0].startDate,
+      endDate: loadWindows[0].endDate,
+    };
+
+    console.log(
+      `Loading rows from ${formatDateRange(
+        historyWindow
+      )}, analyzing ${formatDateRange(loadWindows[0])}`
+    );
+
+    const loaded = await adapter.loadDataSet(state.dataPath, testPrefix, [
+      historyWindow,
+    ]);
+    let testData = loaded.dataSet;
+    const loadReports = loaded.reports;
+
+    // The control group is only needed when comparing it with the test group
+    let controlData: DataSet | undefined;
+    if (state.experimentMode) {
+      console.log(
+        `Experiment mode: loading control data with prefix '${controlPrefix}'`
+      );
+      const control = await adapter.loadDataSet(
+        state.dataPath,
+        controlPrefix,
+        loadWindows
+      );
+      controlData = control.dataSet;
+      loadReports.push(...control.reports);
+    }
+
+    // Convert revenue and spend into the reporting currency
+    const { reportingCurrency } = config.analysis;
+    const exchangeRatesFile =
+      config.data.exchangeRatesFile ||
+      join(state.dataPath, "exchangeRates.csv");
+    const rates = await loadExchangeRates(exchangeRatesFile);
+    const normalizedTest = normalizeCurrencies(
+      testData,
+      rates,
+      reportingCurrency
+    );
+    testData = normalizedTest.dataSet;
+    const currencyConversion = normalizedTest.report;
+    if (controlData) {
+      const normalizedControl = normalizeCurrencies(
+        controlData,
+        rates,
+        reportingCurrency
+      );
+      controlData = normalizedControl.dataSet;
+      currencyConversion.missingRates.push(
+        ...normalizedControl.report.missingRates
+      );
+    }
+
+    currencyConversion.missingRates.forEach((missing) =>
+      console.warn(
+        `Missing ${missing.currency} to ${reportingCurrency} rate for ${missing.rows} ${missing.dataset} rows`
+      )
+    );
+
+    // Drop repeated records, so they aren't counted twice in revenue and spend
+    const dedupKeys = {
+      ...DEFAULT_DEDUP_KEYS,
+      ...parseDedupKeys(config.data.dedupKeys),
+    };
+    const dedupKeep = config.data.dedupKeep as DedupKeep;
+    const dedupedTest = deduplicateDataSet(
+      testData,
+      dedupKeys,
+      dedupKeep,
+      testPrefix
+    );
+    testData = dedupedTest.dataSet;
+    const dedupReports = dedupedTest.reports;
+    if (controlData) {
+      const dedupedControl = deduplicateDataSet(
+        controlData,
+        dedupKeys,
+        dedupKeep,
+        controlPrefix
+      );
+      controlData = dedupedControl.dataSet;
+      dedupReports.push(...dedupedControl.reports);
+    }
+
+    dedupReports
+      .filter((report) => report.duplicateRows > 0)
+      .forEach((report) =>
+        console.warn(
+          `Removed ${report.duplicateRows} duplicate ${report.dataset} rows from ${report.source}`
+        )
+      );
+
+    // Join mcIds and Google client ids into people
+    const historyData = resolveIdentities(testData);
+    if (controlData) controlData = resolveIdentities(controlData);
 
-    // Load test data only, no separate control dataset
-    const testData = await loadDataSet(state.dataPath, "test");
+    // Every other analysis only sees the analysis window
+    testData = filterDataSetByDateRange(historyData, loadWindows[0]);
 
     console.log("Data loaded successfully!");
     console.log(`Sessions: ${testData.sessions.length}`);
@@ -53,9 +356,59 @@ export const loadData: AgentNodeFunction = async (state: AgentState) => {
     console.log(`Source Data: ${testData.sourceData.length}`);
     console.log(`Atoms: ${testData.atoms.length}`);
 
+    // Daily KPI totals of the processed test data, reused while the files
+    // and the settings they're processed with are unchanged
+    const aggregateKey = await getDailyAggregateKey(
+      state.dataPath,
+      testPrefix,
+      [exchangeRatesFile],
+      {
+        source: adapter.kind,
+        historyWindow,
+        loadWindow: loadWindows[0],
+        reportingCurrency,
+        reportingTimeZone: config.analysis.reportingTimeZone,
+        sourceTimeZone: config.analysis.sourceTimeZone,
+        dedupKeys,
+        dedupKeep,
+      }
+    );
+    let dailyAggregates = await readDailyAggregates(
+      config.data.cacheDir,
+      testPrefix,
+      aggregateKey
+    );
+    if (dailyAggregates) {
+      console.log("Daily aggregates read from the cache");
+    } else {
+      dailyAggregates = buildDailySeries(testData, loadWindows[0]);
+      await writeDailyAggregates(
+        config.data.cacheDir,
+        testPrefix,
+        aggregateKey,
+        dailyAggregates
+      );
+    }
+
+    loadReports
+      .filter((report) => report.rejectedRows > 0)
+      .forEach((report) =>
+        console.warn(
+          `Rejected ${report.rejectedRows} of ${report.totalRows} ${report.dataset} rows from ${report.source}`
+        )
+      );
+
     return {
       ...state,
       testData,
+      controlData,
+      historyData,
+      loadReports,
+      dedupReports,
+      loadWindows,
+      comparisonWindows,
+      dailyAggregates,
+      currencyConversion,
     };
   } catch (error) {
     console.error("Error loading data:", error);
@@ -87,18 +440,107 @@ export const validateData: AgentNodeFunction = async (state: AgentState) => {
       throw new Error("Test data not loaded");
     }
 
-    const validation = checkDataValidity(
-      testData.sessions,
-      testData.leads,
-      testData.contacts,
-      testData.transactions,
-      testData.sourceData,
-      testData.atoms
+    const rules = config.data.dataQualityRulesFile
+      ? await loadDataQualityRules(config.data.dataQualityRulesFile)
+      : DEFAULT_DATA_QUALITY_RULES;
+    const validation = evaluateDataQualityRules(testData, rules, state.date);
+
+    const freshness = checkDataFreshness(
+      testData,
+      state.date,
+      config.data.criticalSources
+    );
+    const freshnessValidation = checkFreshnessReport(freshness);
+
+    const loadValidation = checkLoadReports(state.loadReports ?? []);
+    const dedupValidation = checkDedupReports(state.dedupReports ?? []);
+    const identity = measureIdentityCoverage(testData);
+    const identityValidation = checkIdentityCoverage(identity);
+    const atomIntegrity = analyzeAtomIntegrity(testData);
+    const atomValidation = checkAtomIntegrity(atomIntegrity);
+    const currencyValidation = checkCurrencyConversion(
+      state.currencyConversion
+    );
+    // Only failed "error" rules and stale critical sources make the data
+    // invalid; everything else is worth knowing but doesn't stop the brief
+    const issues = [...validation.issues];
+    if (freshness.staleCritical.length > 0) {
+      issues.push(
+        `Critical sources are stale for ${
+          state.date
+        }: ${freshness.staleCritical.join(", ")}`
+      );
+    }
+    const warnings = [
+      ...freshnessValidation.issues,
+      ...validation.warnings,
+      ...loadValidation.issues,
+      ...dedupValidation.issues,
+      ...identityValidation.issues,
+      ...atomValidation.issues,
+      ...currencyValidation.issues,
+    ];
+
+    const dataValidation = {
+      isValid: issues.length === 0,
+      issues,
+      warnings,
+      suggestions: [
+        ...freshnessValidation.suggestions,
+        ...validation.suggestions,
+        ...loadValidation.suggestions,
+        ...dedupValidation.suggestions,
+        ...identityValidation.suggestions,
+        ...atomValidation.suggestions,
+        ...currencyValidation.suggestions,
+      ],
+      ruleOutcomes: validation.outcomes,
+      freshness,
+      loadReports: state.loadReports ?? [],
+      dedupReports: state.dedupReports ?? [],
+      identity,
+      atomIntegrity,
+      currencyConversion: state.currencyConversion,
+    };
+
+    // Stale critical sources stop the analysis
+    if (freshness.staleCritical.length > 0) {
+      return {
+        ...state,
+        dataValidation,
+        error: new Error(
+          `Critical sources are stale for ${
+            state.date
+          }: ${freshness.staleCritical.join(", ")}`
+        ),
+      };
+    }
+
+    // Failed rules of severity "error" stop the brief
+    const blocking = validation.outcomes.filter(
+      (o) => !o.passed && o.severity === "error"
+    );
+    if (blocking.length > 0) {
+      return {
+        ...state,
+        dataValidation,
+        error: new Error(
+          `Data quality rules blocked the brief: ${blocking
+            .map((o) => `${o.ruleId} (${o.message})`)
+            .join("; ")}`
+        ),
+      };
+    }
+
+    console.log(
+      `Ran ${validation.outcomes.length} data quality rules, ${
+        validation.outcomes.filter((o) => !o.passed).length
+      } failed`
     );
 
     return {
       ...state,
-      dataValidation: validation,
+      dataValidation,
     };
   } catch (error) {
     console.error("Error validating data:", error);
@@ -116,77 +558,65 @@ export const analyzeMetrics: AgentNodeFunction = async (state: AgentState) => {
   try {
     console.log("Analyzing key metrics...");
 
-    const { testData } = state;
+    const { testData, comparisonWindows } = state;
 
-    if (!testData) {
+    if (!testData || !comparisonWindows) {
       throw new Error("Data not loaded");
     }
 
-    // Get the current date from state
-    const currentDate = state.date;
-
-    // Calculate the previous period start date (looking back 30 days)
-    const pastDate = calculatePreviousPeriodStartDate(currentDate, 30);
-
     console.log(
-      `Calculating metrics trends: comparing current date ${currentDate} with past date ${pastDate}`
+      `Calculating metrics trends: comparing ${formatDateRange(
+        comparisonWindows.current
+      )} with ${formatDateRange(comparisonWindows.previous)}`
     );
 
-    // Get previous period data
-    const previousPeriodTransactions = filterTransactionsByDateRange(
-      testData.transactions,
-      pastDate,
-      currentDate
-    );
+    const definitions = getMetricDefinitions(config.analysis.metrics);
 
-    const previousPeriodSourceData = filterSourceDataByDateRange(
-      testData.sourceData,
-      pastDate,
-      currentDate
+    const currentPeriod = filterDataSetByDateRange(
+      testData,
+      comparisonWindows.current
+    );
+    const previousPeriod = filterDataSetByDateRange(
+      testData,
+      comparisonWindows.previous
     );
 
     console.log(
-      `Found ${previousPeriodTransactions.length} transactions and ${previousPeriodSourceData.length} source data entries for previous period`
+      `Found ${previousPeriod.transactions.length} transactions and ${previousPeriod.sourceData.length} source data entries for previous period`
     );
 
     // Calculate metrics with trend analysis
-    const metricsAnalysis = calculateMetricsTrend(
-      testData.transactions,
-      testData.sourceData,
-      previousPeriodTransactions,
-      previousPeriodSourceData
-    );
-
-    // Generate reasons for the metrics
-    const roasReasons = generatePossibleReasons(
-      "ROAS",
-      metricsAnalysis.roas.current,
-      metricsAnalysis.roas.previous,
-      testData.sessions,
-      testData.sourceData,
-      testData.atoms
-    );
-
-    const cacReasons = generatePossibleReasons(
-      "CAC",
-      metricsAnalysis.cac.current,
-      metricsAnalysis.cac.previous,
-      testData.sessions,
-      testData.sourceData,
-      testData.atoms
+    const metrics = calculateMetricsTrend(
+      currentPeriod,
+      previousPeriod,
+      definitions,
+      config.analysis.confidenceLevel,
+      config.analysis.bootstrapIterations
     );
 
     return {
       ...state,
       metricsAnalysis: {
-        roas: {
-          ...metricsAnalysis.roas,
-          possibleReasons: roasReasons,
-        },
-        cac: {
-          ...metricsAnalysis.cac,
-          possibleReasons: cacReasons,
-        },
+        metrics: metrics.map((metric, i) => {
+          // Explain each change by mix, rate and unattributed effects across channels and campaigns
+          const decomposition = decomposeMetricChange(
+            definitions[i],
+            currentPeriod,
+            previousPeriod,
+            testData.atoms
+          );
+          return {
+            ...metric,
+            decomposition,
+            possibleReasons: explainMetricChange(
+              definitions[i],
+              decomposition,
+              metric.current,
+              metric.previous,
+              config.analysis.reportingCurrency
+            ),
+          };
+        }),
       },
     };
   } catch (error) {
@@ -199,13 +629,13 @@ export const analyzeMetrics: AgentNodeFunction = async (state: AgentState) => {
 };
 
 /**
- * Analyze conversion rates
+ * Attribute revenue and conversions to channels under each attribution model
  */
-export const analyzeConversions: AgentNodeFunction = async (
+export const analyzeAttribution: AgentNodeFunction = async (
   state: AgentState
 ) => {
   try {
-    console.log("Analyzing conversion rates...");
+    console.log("Analyzing multi-touch attribution...");
 
     const { testData } = state;
 
@@ -213,57 +643,122 @@ export const analyzeConversions: AgentNodeFunction = async (
       throw new Error("Data not loaded");
     }
 
-    // Get the current date from state
-    const currentDate = state.date;
-
-    // Calculate the previous period start date (looking back 30 days)
-    const pastDate = calculatePreviousPeriodStartDate(currentDate, 30);
+    const attributionAnalysis = attributeRevenue(
+      testData.leads,
+      testData.contacts,
+      testData.transactions,
+      testData.sourceData,
+      testData.atoms,
+      config.analysis.attributionHalfLifeDays
+    );
 
     console.log(
-      `Calculating conversion trends: comparing current date ${currentDate} with past date ${pastDate}`
+      `Attributed revenue over ${attributionAnalysis.journeys.total} client journeys`
     );
 
-    // Get previous period data
-    const previousPeriodSessions = filterSessionsByDateRange(
-      testData.sessions,
-      pastDate,
-      currentDate
-    );
+    return {
+      ...state,
+      attributionAnalysis,
+    };
+  } catch (error) {
+    console.error("Error analyzing attribution:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
 
-    const previousPeriodLeads = filterLeadsByDateRange(
-      testData.leads,
-      pastDate,
-      currentDate
+/**
+ * Slice metrics by atom and session dimensions to find where changes came from
+ */
+export const analyzeDrillDown: AgentNodeFunction = async (
+  state: AgentState
+) => {
+  try {
+    console.log("Drilling down into metrics by dimension...");
+
+    const { testData, comparisonWindows } = state;
+
+    if (!testData || !comparisonWindows) {
+      throw new Error("Data not loaded");
+    }
+
+    const drillDown = drillDownMetrics(
+      filterDataSetByDateRange(testData, comparisonWindows.current),
+      filterDataSetByDateRange(testData, comparisonWindows.previous),
+      testData.atoms
     );
 
-    const previousPeriodContacts = filterContactsByDateRange(
-      testData.contacts,
-      pastDate,
-      currentDate
+    console.log(`Drilled down into ${drillDown.dimensions.length} dimensions`);
+
+    return {
+      ...state,
+      drillDown,
+    };
+  } catch (error) {
+    console.error("Error drilling down into metrics:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Analyze conversion rates
+ */
+export const analyzeConversions: AgentNodeFunction = async (
+  state: AgentState
+) => {
+  try {
+    console.log("Analyzing conversion rates...");
+
+    const { testData, comparisonWindows } = state;
+
+    if (!testData || !comparisonWindows) {
+      throw new Error("Data not loaded");
+    }
+
+    console.log(
+      `Calculating conversion trends: comparing ${formatDateRange(
+        comparisonWindows.current
+      )} with ${formatDateRange(comparisonWindows.previous)}`
     );
 
-    const previousPeriodTransactions = filterTransactionsByDateRange(
-      testData.transactions,
-      pastDate,
-      currentDate
+    const currentPeriod = filterDataSetByDateRange(
+      testData,
+      comparisonWindows.current
+    );
+    const previousPeriod = filterDataSetByDateRange(
+      testData,
+      comparisonWindows.previous
     );
 
     console.log(
-      `Found ${previousPeriodSessions.length} sessions, ${previousPeriodLeads.length} leads, ${previousPeriodContacts.length} contacts, and ${previousPeriodTransactions.length} transactions for previous period`
+      `Found ${previousPeriod.sessions.length} sessions, ${previousPeriod.leads.length} leads, ${previousPeriod.contacts.length} contacts, and ${previousPeriod.transactions.length} transactions for previous period`
     );
 
     // Calculate conversion trends
-    const stages = calculateConversionsTrend(
-      testData.sessions,
-      testData.leads,
-      testData.contacts,
-      testData.transactions,
-      previousPeriodSessions,
-      previousPeriodLeads,
-      previousPeriodContacts,
-      previousPeriodTransactions
+    const { stages, unlinkedContacts, linkSource } = calculateConversionsTrend(
+      currentPeriod.sessions,
+      currentPeriod.leads,
+      currentPeriod.contacts,
+      currentPeriod.transactions,
+      previousPeriod.sessions,
+      previousPeriod.leads,
+      previousPeriod.contacts,
+      previousPeriod.transactions,
+      testData.contact2Leads,
+      config.analysis.confidenceLevel
     );
 
+    if (linkSource === "person") {
+      console.warn(
+        "No Contact2Lead links loaded, matching leads to contacts by person"
+      );
+    }
+
     // Generate insights using LLM
     const model = new ChatOpenAI({
       openAIApiKey: config.openai.apiKey,
@@ -277,13 +772,27 @@ export const analyzeConversions: AgentNodeFunction = async (
     Conversion Rates:
     ${stages
       .map((s) => {
+        if (!s.available) {
+          return `- ${s.name}: unavailable, nothing entered this stage in the current period`;
+        }
         return `- ${s.name}: ${s.current.toFixed(2)}% (${
+          s.currentCounts.converted
+        } of ${s.currentCounts.total}; ${
           s.percentageChange >= 0 ? "up" : "down"
         } ${Math.abs(s.percentageChange).toFixed(
           2
-        )}% from previous period's ${s.previous.toFixed(2)}%)`;
+        )}% from previous period's ${s.previous.toFixed(2)}%, ${
+          s.previousCounts.converted
+        } of ${s.previousCounts.total}; ${describeSignificance(s, "pp")})`;
       })
       .join("\n")}
+
+    Contacts not linked to any lead (excluded from Lead to Contact): ${
+      unlinkedContacts.current
+    } (previous period: ${unlinkedContacts.previous})
+    Leads matched to contacts by: ${
+      linkSource === "contact2Leads" ? "Contact2Lead links" : "shared person"
+    }
     
     Provide concise, data-driven insights about what these conversion rates and their changes mean for the business.
     Insights:`;
@@ -300,6 +809,8 @@ export const analyzeConversions: AgentNodeFunction = async (
       ...state,
       conversionAnalysis: {
         stages,
+        unlinkedContacts,
+        linkSource,
         insights,
       },
     };
@@ -312,6 +823,46 @@ export const analyzeConversions: AgentNodeFunction = async (
   }
 };
 
+/**
+ * Measure the time to convert at each funnel stage and flag maturing days
+ */
+export const analyzeConversionLag: AgentNodeFunction = async (
+  state: AgentState
+) => {
+  try {
+    console.log("Analyzing conversion lag...");
+
+    const history = getHistoryData(state, CONVERSION_LAG_LOOKBACK_DAYS);
+
+    const conversionLag = measureConversionLag(
+      history.sessions,
+      history.leads,
+      history.contacts,
+      history.transactions,
+      history.atoms,
+      state.date
+    );
+
+    const maturingStages = conversionLag.stages.filter((s) =>
+      s.recentDays.some((d) => d.maturing)
+    );
+    console.log(
+      `Measured conversion lag at ${conversionLag.stages.length} stages, ${maturingStages.length} still maturing`
+    );
+
+    return {
+      ...state,
+      conversionLag,
+    };
+  } catch (error) {
+    console.error("Error analyzing conversion lag:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
 /**
  * Analyze channel distribution
  */
@@ -319,40 +870,50 @@ export const analyzeChannels: AgentNodeFunction = async (state: AgentState) => {
   try {
     console.log("Analyzing channel distribution...");
 
-    const { testData } = state;
+    const { testData, comparisonWindows } = state;
 
-    if (!testData) {
+    if (!testData || !comparisonWindows) {
       throw new Error("Data not loaded");
     }
 
-    // Get the current date from state
-    const currentDate = state.date;
-
-    // Calculate the previous period start date (looking back 30 days)
-    const pastDate = calculatePreviousPeriodStartDate(currentDate, 30);
+    const { current, previous } = comparisonWindows;
 
     console.log(
-      `Calculating channel trends: comparing current date ${currentDate} with past date ${pastDate}`
+      `Calculating channel trends: comparing ${formatDateRange(
+        current
+      )} with ${formatDateRange(previous)}`
     );
 
-    // Get previous period data
+    const currentPeriodSessions = filterSessionsByDateRange(
+      testData.sessions,
+      current.startDate,
+      current.endDate
+    );
     const previousPeriodSessions = filterSessionsByDateRange(
       testData.sessions,
-      pastDate,
-      currentDate
+      previous.startDate,
+      previous.endDate
     );
 
     console.log(
       `Found ${previousPeriodSessions.length} sessions for previous period channel analysis`
     );
 
-    // Calculate channel distribution trends
-    const channels = calculateChannelsTrend(
-      testData.sessions,
+    // Calculate channel distribution trends; sessions are attributed to
+    // channels through all of their users' leads and contacts
+    const { channels, sessionAttribution } = calculateChannelsTrend(
+      currentPeriodSessions,
       previousPeriodSessions,
+      testData.leads,
+      testData.contacts,
       testData.atoms
     );
 
+    const { attributed, total } = sessionAttribution.current;
+    console.log(
+      `Attributed ${attributed} of ${total} sessions to a channel through their users`
+    );
+
     // Generate insights using LLM with historical comparison
     const model = new ChatOpenAI({
       openAIApiKey: config.openai.apiKey,
@@ -375,6 +936,10 @@ export const analyzeChannels: AgentNodeFunction = async (state: AgentState) => {
         )}%`;
       })
       .join("\n")}
+
+    Sessions attributed to a channel through their users: ${attributed} of ${total} (${
+      total > 0 ? ((attributed / total) * 100).toFixed(2) : "0.00"
+    }%); the rest are in the ${UNATTRIBUTED_CHANNEL} bucket.
     
     Provide concise, data-driven insights about what this channel distribution and its changes mean for marketing strategy.
     Insights:`;
@@ -391,6 +956,7 @@ export const analyzeChannels: AgentNodeFunction = async (state: AgentState) => {
       ...state,
       channelDistribution: {
         channels,
+        sessionAttribution,
         insights,
       },
     };
@@ -403,6 +969,243 @@ export const analyzeChannels: AgentNodeFunction = async (state: AgentState) => {
   }
 };
 
+/**
+ * Compare the test group with the control group in experiment mode
+ */
+export const analyzeExperiment: AgentNodeFunction = async (
+  state: AgentState
+) => {
+  try {
+    if (!state.experimentMode) {
+      return state;
+    }
+
+    console.log("Analyzing test vs control experiment...");
+
+    const { testData, controlData } = state;
+
+    if (!testData || !controlData) {
+      throw new Error("Experiment mode requires both test and control data");
+    }
+
+    const period = getAnalysisPeriod(state);
+
+    const experimentAnalysis = compareExperimentGroups(
+      testData,
+      controlData,
+      period,
+      config.analysis.confidenceLevel,
+      config.analysis.bootstrapIterations
+    );
+
+    return {
+      ...state,
+      experimentAnalysis,
+    };
+  } catch (error) {
+    console.error("Error analyzing experiment:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Build acquisition cohort tables
+ */
+export const analyzeCohorts: AgentNodeFunction = async (state: AgentState) => {
+  try {
+    console.log("Analyzing acquisition cohorts...");
+
+    const history = getHistoryData(state, COHORT_LOOKBACK_DAYS);
+
+    const cohortAnalysis = buildCohortTables(
+      history.leads,
+      history.contacts,
+      history.transactions,
+      history.sourceData,
+      state.date,
+      config.analysis.cohortGranularity
+    );
+
+    console.log(
+      `Built ${cohortAnalysis.cohorts.length} ${cohortAnalysis.granularity} cohorts`
+    );
+
+    return {
+      ...state,
+      cohortAnalysis,
+    };
+  } catch (error) {
+    console.error("Error analyzing cohorts:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Analyze repeat purchases and customer lifetime value by acquisition channel
+ */
+export const analyzeCustomerValue: AgentNodeFunction = async (
+  state: AgentState
+) => {
+  try {
+    console.log("Analyzing customer lifetime value...");
+
+    const history = getHistoryData(state, LTV_LOOKBACK_DAYS);
+
+    const customerValue = valueCustomers(
+      history.transactions,
+      history.contacts,
+      history.sourceData,
+      history.atoms,
+      state.date
+    );
+
+    console.log(
+      `Analyzed ${customerValue.overall.customers} new customers across ${customerValue.channels.length} channels`
+    );
+
+    return {
+      ...state,
+      customerValue,
+    };
+  } catch (error) {
+    console.error("Error analyzing customer value:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Detect anomalies in daily KPIs on the analysis date
+ */
+export const detectAnomalies: AgentNodeFunction = async (state: AgentState) => {
+  try {
+    console.log("Detecting daily KPI anomalies...");
+
+    const { testData } = state;
+
+    if (!testData) {
+      throw new Error("Data not loaded");
+    }
+
+    const anomalies = findAnomalies(
+      getDailySeries(state, testData),
+      state.date
+    );
+
+    console.log(
+      `Found ${anomalies.anomalies.length} anomalies across ${anomalies.checkedMetrics.length} metrics`
+    );
+
+    return {
+      ...state,
+      anomalies,
+    };
+  } catch (error) {
+    console.error("Error detecting anomalies:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Forecast spend, revenue, ROAS and new customers after the analysis date
+ */
+export const forecastMetrics: AgentNodeFunction = async (state: AgentState) => {
+  try {
+    console.log("Forecasting key metrics...");
+
+    const { testData } = state;
+
+    if (!testData) {
+      throw new Error("Data not loaded");
+    }
+
+    const forecast = projectMetrics(
+      getDailySeries(state, testData),
+      state.date,
+      config.analysis.forecastHorizonDays,
+      config.analysis.confidenceLevel
+    );
+
+    console.log(
+      `Forecast ${forecast.forecasts.length} metrics over the next ${forecast.horizonDays} days from ${forecast.historyDays} days of history`
+    );
+
+    return {
+      ...state,
+      forecast,
+    };
+  } catch (error) {
+    console.error("Error forecasting metrics:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
+/**
+ * Recommend budget shifts between channels or campaigns from their marginal
+ * returns
+ */
+export const recommendBudget: AgentNodeFunction = async (state: AgentState) => {
+  try {
+    console.log("Recommending budget shifts...");
+
+    const { testData } = state;
+
+    if (!testData) {
+      throw new Error("Data not loaded");
+    }
+
+    const period = getAnalysisPeriod(state);
+    const history = filterDataSetByDateRange(testData, period);
+
+    const budgetRecommendations = optimizeBudget(
+      history.leads,
+      history.contacts,
+      history.transactions,
+      history.sourceData,
+      testData.atoms,
+      state.date,
+      {
+        level: config.analysis.budgetLevel as BudgetLevel,
+        attributionModel: config.analysis
+          .budgetAttributionModel as AttributionModel,
+        halfLifeDays: config.analysis.attributionHalfLifeDays,
+        maxChange: config.analysis.budgetMaxChange,
+        bounds: parseBudgetBounds(config.analysis.budgetBounds),
+        totalDailyBudget: config.analysis.budgetTotalDaily,
+      }
+    );
+
+    console.log(
+      `Recommended budgets for ${budgetRecommendations.recommendations.length} ${budgetRecommendations.level}s`
+    );
+
+    return {
+      ...state,
+      budgetRecommendations,
+    };
+  } catch (error) {
+    console.error("Error recommending budget:", error);
+    return {
+      ...state,
+      error: error as Error,
+    };
+  }
+};
+
 /**
  * Suggest data quality improvements
  */
@@ -486,25 +1289,64 @@ export const generateSummary: AgentNodeFunction = async (state: AgentState) => {
 
     const {
       date,
+      comparisonWindows,
       dataValidation,
       metricsAnalysis,
+      attributionAnalysis,
+      drillDown,
       conversionAnalysis,
+      conversionLag,
       channelDistribution,
+      experimentAnalysis,
+      cohortAnalysis,
+      customerValue,
+      anomalies,
+      forecast,
+      budgetRecommendations,
       dataQualityImprovements,
       reportingImprovements,
     } = state;
 
     if (
+      !comparisonWindows ||
       !dataValidation ||
       !metricsAnalysis ||
+      !attributionAnalysis ||
+      !drillDown ||
       !conversionAnalysis ||
+      !conversionLag ||
       !channelDistribution ||
+      !cohortAnalysis ||
+      !customerValue ||
+      !anomalies ||
+      !forecast ||
+      !budgetRecommendations ||
       !dataQualityImprovements ||
       !reportingImprovements
     ) {
       throw new Error("Missing required analysis data");
     }
 
+    const experimentSection = experimentAnalysis
+      ? `
+    Test vs Control Experiment (${experimentAnalysis.period.startDate} to ${
+          experimentAnalysis.period.endDate
+        }, ${(experimentAnalysis.confidenceLevel * 100).toFixed(
+          0
+        )}% confidence):
+    ${experimentAnalysis.comparisons
+      .map(
+        (c) =>
+          `- ${c.metric}: test ${c.test.toFixed(
+            2
+          )} vs control ${c.control.toFixed(2)} (lift ${c.relativeLift.toFixed(
+            2
+          )}%, p=${c.pValue.toFixed(3)}, ${c.verdict})`
+      )
+      .join("\n")}
+    `
+      : "";
+
     // Use LLM to generate summary
     const model = new ChatOpenAI({
       openAIApiKey: config.openai.apiKey,
@@ -516,6 +1358,9 @@ export const generateSummary: AgentNodeFunction = async (state: AgentState) => {
     Create a concise but comprehensive executive summary based on the following information:
     
     Date: ${date}
+    Compared periods (${comparisonWindows.mode}): ${formatDateRange(
+      comparisonWindows.current
+    )} vs ${formatDateRange(comparisonWindows.previous)}
     
     Data Quality:
     - Valid: ${dataValidation.isValid ? "Yes" : "No"}
@@ -524,24 +1369,78 @@ export const generateSummary: AgentNodeFunction = async (state: AgentState) => {
         ? dataValidation.issues.join(", ")
         : "None"
     }
+    - Warnings: ${
+      dataValidation.warnings.length > 0
+        ? dataValidation.warnings.join(", ")
+        : "None"
+    }
+    - Identity coverage: ${dataValidation.identity.insights.join("; ")}
     
     Key Metrics:
-    - ROAS: ${metricsAnalysis.roas.current.toFixed(2)} (${
-      metricsAnalysis.roas.percentageChange >= 0 ? "up" : "down"
-    } ${Math.abs(metricsAnalysis.roas.percentageChange).toFixed(2)}%, ${
-      metricsAnalysis.roas.isSignificant ? "significant" : "not significant"
-    })
-    - CAC: ${metricsAnalysis.cac.current.toFixed(2)} (${
-      metricsAnalysis.cac.percentageChange >= 0 ? "up" : "down"
-    } ${Math.abs(metricsAnalysis.cac.percentageChange).toFixed(2)}%, ${
-      metricsAnalysis.cac.isSignificant ? "significant" : "not significant"
-    })
+    ${metricsAnalysis.metrics
+      .map(
+        (m) =>
+          `- ${m.name}: ${formatMetricValue(
+            m,
+            m.current,
+            config.analysis.reportingCurrency
+          )} (${m.percentageChange >= 0 ? "up" : "down"} ${Math.abs(
+            m.percentageChange
+          ).toFixed(2)}%, ${
+            m.direction === "higher_is_better"
+              ? "higher is better"
+              : "lower is better"
+          }, ${describeSignificance(
+            m,
+            m.format === "percent" ? "pp" : ""
+          )})\n${m.possibleReasons
+            .slice(0, 2)
+            .map((reason) => `      - ${reason}`)
+            .join("\n")}`
+      )
+      .join("\n")}
+    
+    Attribution Insights:
+    ${attributionAnalysis.insights.map((insight) => `- ${insight}`).join("\n")}
+    
+    Drill-down by Dimension (revenue movers and weakest larger slices):
+    ${drillDown.insights.map((insight) => `- ${insight}`).join("\n")}
     
     Conversion Insights:
     ${conversionAnalysis.insights.map((insight) => `- ${insight}`).join("\n")}
     
+    Conversion Lag (recent days still maturing will gain late conversions, so their lower rates are not drops):
+    ${conversionLag.insights.map((insight) => `- ${insight}`).join("\n")}
+    
     Channel Distribution Insights:
     ${channelDistribution.insights.map((insight) => `- ${insight}`).join("\n")}
+    ${experimentSection}
+    Acquisition Cohort Insights (${cohortAnalysis.granularity} cohorts):
+    ${cohortAnalysis.insights.map((insight) => `- ${insight}`).join("\n")}
+    
+    Customer Value Insights (repeat purchases and LTV:CAC by acquisition channel):
+    ${customerValue.insights.map((insight) => `- ${insight}`).join("\n")}
+    
+    Daily Anomalies (against the same weekday over the previous ${
+      anomalies.baselineDays
+    } days):
+    ${anomalies.insights.map((insight) => `- ${insight}`).join("\n")}
+    
+    Forecast for ${
+      forecast.startDate
+    } onwards, compared with the recent pace (${(
+      forecast.confidenceLevel * 100
+    ).toFixed(0)}% prediction intervals):
+    ${forecast.insights.map((insight) => `- ${insight}`).join("\n")}
+    
+    Budget Recommendations (daily budgets by ${
+      budgetRecommendations.level
+    }, from ${
+      budgetRecommendations.attributionModel
+    } attributed revenue and marginal ROAS):
+    ${budgetRecommendations.insights
+      .map((insight) => `- ${insight}`)
+      .join("\n")}
     
     Key Data Quality Improvement Recommendations:
     ${dataQualityImprovements.dataCollection
@@ -555,7 +1454,7 @@ export const generateSummary: AgentNodeFunction = async (state: AgentState) => {
       .map((rec) => `- ${rec}`)
       .join("\n")}
     
-    Your summary should be about 150-200 words, highlighting the most important findings and actionable insights, written in a professional business tone.
+    Your summary should be about 150-200 words, highlighting the most important findings and actionable insights, and saying whether the forecast shows we are on track, written in a professional business tone.
     Summary:`;
 
     const prompt = PromptTemplate.fromTemplate(template);
@@ -585,10 +1484,20 @@ export const completeBrief: AgentNodeFunction = async (state: AgentState) => {
 
     const {
       date,
+      comparisonWindows,
       dataValidation,
       metricsAnalysis,
+      attributionAnalysis,
+      drillDown,
       conversionAnalysis,
+      conversionLag,
       channelDistribution,
+      experimentAnalysis,
+      cohortAnalysis,
+      customerValue,
+      anomalies,
+      forecast,
+      budgetRecommendations,
       dataQualityImprovements,
       reportingImprovements,
       summary,
@@ -596,10 +1505,19 @@ export const completeBrief: AgentNodeFunction = async (state: AgentState) => {
 
     if (
       !date ||
+      !comparisonWindows ||
       !dataValidation ||
       !metricsAnalysis ||
+      !attributionAnalysis ||
+      !drillDown ||
       !conversionAnalysis ||
+      !conversionLag ||
       !channelDistribution ||
+      !cohortAnalysis ||
+      !customerValue ||
+      !anomalies ||
+      !forecast ||
+      !budgetRecommendations ||
       !dataQualityImprovements ||
       !reportingImprovements ||
       !summary
@@ -611,10 +1529,20 @@ export const completeBrief: AgentNodeFunction = async (state: AgentState) => {
       ...state,
       dailyBrief: {
         date,
+        comparisonWindows,
         dataValidation,
         metricsAnalysis,
+        attributionAnalysis,
+        drillDown,
         conversionAnalysis,
+        conversionLag,
         channelDistribution,
+        experimentAnalysis,
+        cohortAnalysis,
+        customerValue,
+        anomalies,
+        forecast,
+        budgetRecommendations,
         dataQualityImprovements,
         reportingImprovements,
         summary,
@@ -1,5 +1,27 @@
 import { StateGraph } from "@langchain/langgraph";
-import { DailyBrief } from "../types";
+import {
+  AnomalyAnalysis,
+  AttributionAnalysis,
+  BudgetRecommendations,
+  DailyBrief,
+  DailySeries,
+  DataSet,
+  DataValidationResult,
+  DateRange,
+  DedupReport,
+  DrillDownAnalysis,
+  ForecastAnalysis,
+  ChannelDistributionAnalysis,
+  CohortAnalysis,
+  ConversionLagAnalysis,
+  ComparisonWindows,
+  CustomerValueAnalysis,
+  ConversionAnalysis,
+  CurrencyConversionReport,
+  ExperimentAnalysis,
+  LoadReport,
+  MetricsAnalysis,
+} from "../types";
 
 /**
  * The state maintained by the agent throughout its workflow
@@ -9,61 +31,52 @@ export interface AgentState {
   date: string;
   dataPath: string;
   dataPrefix: "ai.test" | "ai.control";
+  experimentMode?: boolean; // load the control group and compare it with the test group
 
   // Loaded data from files
-  testData?: any;
-  controlData?: any;
+  testData?: DataSet;
+  controlData?: DataSet;
+  // Test data reaching back over the longest customer analysis lookback
+  historyData?: DataSet;
+
+  // Schema validation reports for each loaded dataset
+  loadReports?: LoadReport[];
+  // Repeated records removed from each loaded dataset
+  dedupReports?: DedupReport[];
+
+  // Date ranges the test and control data cover, and the daily KPI totals of
+  // the test data over the analysis window, cached across runs
+  loadWindows?: DateRange[];
+  comparisonWindows?: ComparisonWindows;
+  dailyAggregates?: DailySeries[];
+
+  // Conversion of revenue and spend into the reporting currency
+  currencyConversion?: CurrencyConversionReport;
 
   // Analysis results for each step
-  dataValidation?: {
-    isValid: boolean;
-    issues: string[];
-    suggestions: string[];
-  };
+  dataValidation?: DataValidationResult;
 
-  metricsAnalysis?: {
-    roas: {
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-      possibleReasons: string[];
-    };
-    cac: {
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-      possibleReasons: string[];
-    };
-  };
+  metricsAnalysis?: MetricsAnalysis;
 
-  conversionAnalysis?: {
-    stages: {
-      name: string;
-      current: number;
-      previous: number;
-      percentageChange: number;
-      isSignificant: boolean;
-    }[];
-    insights: string[];
-  };
+  attributionAnalysis?: AttributionAnalysis;
 
-  channelDistribution?: {
-    channels: {
-      name: string;
-      current: {
-        sessions: number;
-        percentage: number;
-      };
-      previous: {
-        sessions: number;
-        percentage: number;
-      };
-      change: number;
-    }[];
-    insights: string[];
-  };
+  drillDown?: DrillDownAnalysis;
+
+  conversionAnalysis?: ConversionAnalysis;
+  conversionLag?: ConversionLagAnalysis;
+
+  channelDistribution?: ChannelDistributionAnalysis;
+
+  experimentAnalysis?: ExperimentAnalysis;
+
+  cohortAnalysis?: CohortAnalysis;
+  customerValue?: CustomerValueAnalysis;
+
+  anomalies?: AnomalyAnalysis;
+
+  forecast?: ForecastAnalysis;
+
+  budgetRecommendations?: BudgetRecommendations;
 
   dataQualityImprovements?: {
     dataCollection: string[];
@@ -93,8 +106,17 @@ export enum AgentAction {
   LOAD_DATA = "load_data",
   VALIDATE_DATA = "validate_data",
   ANALYZE_METRICS = "analyze_metrics",
+  ANALYZE_ATTRIBUTION = "analyze_attribution",
+  ANALYZE_DRILL_DOWN = "analyze_drill_down",
   ANALYZE_CONVERSIONS = "analyze_conversions",
+  ANALYZE_CONVERSION_LAG = "analyze_conversion_lag",
   ANALYZE_CHANNELS = "analyze_channels",
+  ANALYZE_EXPERIMENT = "analyze_experiment",
+  ANALYZE_COHORTS = "analyze_cohorts",
+  ANALYZE_CUSTOMER_VALUE = "analyze_customer_value",
+  DETECT_ANOMALIES = "detect_anomalies",
+  FORECAST_METRICS = "forecast_metrics",
+  RECOMMEND_BUDGET = "recommend_budget",
   SUGGEST_DATA_IMPROVEMENTS = "suggest_data_improvements",
   SUGGEST_REPORTING_IMPROVEMENTS = "suggest_reporting_improvements",
   GENERATE_SUMMARY = "generate_summary",
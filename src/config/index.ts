@@ -1,5 +1,9 @@
 import dotenv from "dotenv";
 import { join } from "path";
+import {
+  calculatePreviousPeriodStartDate,
+  formatReportingDate,
+} from "../utils/date-utils";
 
 // Load environment variables
 dotenv.config();
@@ -17,7 +21,11 @@ if (!process.env.DATA_DIR) {
 
 // Define default values
 const DEFAULT_HISTORICAL_DAYS = 7;
-const DEFAULT_SIGNIFICANT_CHANGE_THRESHOLD = 10; // 10% change is considered significant
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+const DEFAULT_BOOTSTRAP_ITERATIONS = 2000;
+const DEFAULT_ATTRIBUTION_HALF_LIFE_DAYS = 7;
+const DEFAULT_FORECAST_HORIZON_DAYS = 14;
+const DEFAULT_BUDGET_MAX_CHANGE = 0.3;
 
 export const config = {
   // API Keys
@@ -28,19 +36,92 @@ export const config = {
 
   // Data Paths
   data: {
+    source: process.env.DATA_SOURCE || "csv", // csv, jsonl, sqlite or partitioned
     inputDir: process.env.DATA_DIR || join(process.cwd(), "src/data/input"),
     outputDir: process.env.OUTPUT_DIR || join(process.cwd(), "src/data/output"),
+    cacheDir: process.env.CACHE_DIR || join(process.cwd(), "src/data/cache"),
+    testPrefix: process.env.TEST_PREFIX || "test",
+    controlPrefix: process.env.CONTROL_PREFIX || "control",
+    // Dated exchange rates used to convert revenue and spend, defaults to
+    // exchangeRates.csv in the data directory
+    exchangeRatesFile: process.env.EXCHANGE_RATES_FILE,
+    // Dedup key fields per dataset overriding the defaults, as
+    // "dataset=field+field;dataset=field", and which duplicate is kept
+    dedupKeys: process.env.DEDUP_KEYS || "",
+    dedupKeep: (process.env.DEDUP_KEEP || "first").toLowerCase(),
+    // JSON list of data quality rules replacing the default ones
+    dataQualityRulesFile: process.env.DATA_QUALITY_RULES_FILE,
+    // Datasets and sources (atom source names) whose data must have arrived
+    // for the analysis date, comma-separated
+    criticalSources: (process.env.CRITICAL_SOURCES || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0),
   },
 
   // Analysis Parameters
   analysis: {
+    // Periods compared by metrics, drill-down, conversions and channels:
+    // day_over_day, week_over_week, rolling (the last historicalDays days vs
+    // the ones before), month_to_date or custom
+    comparisonMode: (process.env.COMPARISON_MODE || "rolling").toLowerCase(),
     historicalDays: parseInt(
       process.env.HISTORICAL_DAYS || DEFAULT_HISTORICAL_DAYS.toString()
     ),
-    significantChangeThreshold: parseInt(
-      process.env.SIGNIFICANT_CHANGE_THRESHOLD ||
-        DEFAULT_SIGNIFICANT_CHANGE_THRESHOLD.toString()
+    // Inclusive YYYY-MM-DD..YYYY-MM-DD ranges compared in custom mode
+    currentPeriod: process.env.CURRENT_PERIOD,
+    previousPeriod: process.env.PREVIOUS_PERIOD,
+    // Time zone whose calendar days are reported, and the zone of timestamps
+    // without an offset (defaults to the reporting time zone)
+    reportingTimeZone: process.env.REPORTING_TIMEZONE || "UTC",
+    sourceTimeZone:
+      process.env.SOURCE_TIMEZONE || process.env.REPORTING_TIMEZONE || "UTC",
+    // Currency all revenue and spend metrics are reported in
+    reportingCurrency: (process.env.REPORTING_CURRENCY || "USD").toUpperCase(),
+    // Compare the test group with the control group
+    experimentMode: process.env.EXPERIMENT_MODE?.toLowerCase() === "true",
+    confidenceLevel: parseFloat(
+      process.env.CONFIDENCE_LEVEL || DEFAULT_CONFIDENCE_LEVEL.toString()
     ),
+    cohortGranularity: (process.env.COHORT_GRANULARITY || "weekly") as
+      | "daily"
+      | "weekly"
+      | "monthly",
+    bootstrapIterations: parseInt(
+      process.env.BOOTSTRAP_ITERATIONS ||
+        DEFAULT_BOOTSTRAP_ITERATIONS.toString()
+    ),
+    // Days after which a touchpoint's credit halves in time-decay attribution
+    attributionHalfLifeDays: parseFloat(
+      process.env.ATTRIBUTION_HALF_LIFE_DAYS ||
+        DEFAULT_ATTRIBUTION_HALF_LIFE_DAYS.toString()
+    ),
+    // Ids of the metrics to report, in order; all registered metrics if empty
+    metrics: (process.env.METRICS || "")
+      .split(",")
+      .map((id) => id.trim().toLowerCase())
+      .filter((id) => id.length > 0),
+    // Days after the analysis date projected by the forecast (7-30)
+    forecastHorizonDays: parseInt(
+      process.env.FORECAST_HORIZON_DAYS ||
+        DEFAULT_FORECAST_HORIZON_DAYS.toString()
+    ),
+    // Units budgets are reallocated between: channel or campaign
+    budgetLevel: (process.env.BUDGET_LEVEL || "channel").toLowerCase(),
+    // Attribution model crediting revenue to the units' spend
+    budgetAttributionModel: (
+      process.env.BUDGET_ATTRIBUTION_MODEL || "linear"
+    ).toLowerCase(),
+    // Largest relative budget change of a unit without explicit bounds
+    budgetMaxChange: parseFloat(
+      process.env.BUDGET_MAX_CHANGE || DEFAULT_BUDGET_MAX_CHANGE.toString()
+    ),
+    // Daily spend bounds by unit, as "name=min..max;name=min..max"
+    budgetBounds: process.env.BUDGET_BOUNDS || "",
+    // Total daily budget to allocate, the current total if not set
+    budgetTotalDaily: process.env.BUDGET_TOTAL_DAILY
+      ? parseFloat(process.env.BUDGET_TOTAL_DAILY)
+      : undefined,
   },
 
   // LangGraph agent configuration
@@ -50,14 +131,12 @@ export const config = {
   },
 };
 
-// Helper function to get today's date in ISO format
+// Helper function to get today's date in ISO format, in the reporting time zone
 export function getTodayISOString(): string {
-  return new Date().toISOString().split("T")[0];
+  return formatReportingDate(Date.now());
 }
 
 // Helper function to get a past date (N days ago) in ISO format
 export function getPastDateISOString(daysAgo: number): string {
-  const date = new Date();
-  date.setDate(date.getDate() - daysAgo);
-  return date.toISOString().split("T")[0];
+  return calculatePreviousPeriodStartDate(getTodayISOString(), daysAgo);
 }
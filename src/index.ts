@@ -2,6 +2,8 @@ import { config, getTodayISOString } from "./config";
 import fs from "fs-extra";
 import path from "path";
 import { createMarketingDataAnalysisGraph } from "./agents/agent";
+import { configureTimeZones, formatDateRange } from "./utils/date-utils";
+import { formatMetricValue } from "./services/metric-registry";
 
 /**
  * Parse command line arguments to get the date
@@ -38,12 +40,26 @@ function getDateFromArgs(): string {
   return "2024-03-15";
 }
 
+/**
+ * Check whether experiment mode was requested on the command line
+ * @returns True if --experiment was passed
+ */
+function getExperimentModeFromArgs(): boolean {
+  return process.argv.slice(2).includes("--experiment");
+}
+
 async function main() {
   console.log("Starting Marketing Data Analysis Agent...");
 
   try {
     await fs.ensureDir(config.data.outputDir);
 
+    // Bucket every timestamp into days of the reporting time zone
+    configureTimeZones({
+      reportingTimeZone: config.analysis.reportingTimeZone,
+      sourceTimeZone: config.analysis.sourceTimeZone,
+    });
+
     // Get date from command line or use default
     const analysisDate = getDateFromArgs();
 
@@ -52,6 +68,8 @@ async function main() {
       date: analysisDate,
       dataPath: config.data.inputDir,
       dataPrefix: "ai.test" as const,
+      experimentMode:
+        getExperimentModeFromArgs() || config.analysis.experimentMode,
     };
 
     console.log(`Processing data for date: ${initialState.date}`);
@@ -80,33 +98,209 @@ async function main() {
       // Print a summary to the console
       console.log("\n===== DAILY BRIEF SUMMARY =====");
       console.log(`Date: ${result.dailyBrief.date}`);
+      const { comparisonWindows } = result.dailyBrief;
+      console.log(
+        `Compared: ${formatDateRange(
+          comparisonWindows.current
+        )} vs ${formatDateRange(comparisonWindows.previous)} (${
+          comparisonWindows.mode
+        })`
+      );
+      const { ruleOutcomes } = result.dailyBrief.dataValidation;
       console.log(
         `\nData Quality: ${
-          result.dailyBrief.dataValidation.isValid ? "Good" : "Issues Found"
-        }`
+          !result.dailyBrief.dataValidation.isValid
+            ? "Issues Found"
+            : result.dailyBrief.dataValidation.warnings.length > 0
+            ? "Warnings"
+            : "Good"
+        } (${ruleOutcomes.filter((o) => o.passed).length} of ${
+          ruleOutcomes.length
+        } rules passed)`
       );
 
+      const stale = result.dailyBrief.dataValidation.freshness.entries.filter(
+        (e) => e.status !== "fresh"
+      );
+      if (stale.length > 0) {
+        console.log("\nData Freshness:");
+        stale.forEach((e) => {
+          console.log(
+            `- ${e.name} (${e.kind}): ${e.status.replace("_", " ")}, latest ${
+              e.latestDate ?? "never"
+            }`
+          );
+        });
+      }
+
+      const { identity } = result.dailyBrief.dataValidation;
+      console.log(
+        `\nIdentity Coverage: ${identity.people} people from ${
+          identity.mcIds + identity.clientIds
+        } identifiers`
+      );
+      identity.stages.forEach((s) => {
+        console.log(
+          `- ${s.stage} traceable to a session: ${
+            s.coverage !== null ? `${s.coverage.toFixed(1)}%` : "n/a"
+          } (${s.withSession} of ${s.people})`
+        );
+      });
+
+      const { atomIntegrity } = result.dailyBrief.dataValidation;
+      if (atomIntegrity.revenue.total > 0) {
+        console.log(
+          `\nAtom Integrity: ${(
+            (atomIntegrity.revenue.placeholder / atomIntegrity.revenue.total) *
+            100
+          ).toFixed(1)}% of revenue on placeholder atoms, ${(
+            (atomIntegrity.revenue.orphan / atomIntegrity.revenue.total) *
+            100
+          ).toFixed(1)}% on atom ids missing from Atoms`
+        );
+      }
+
       if (result.dailyBrief.dataValidation.issues.length > 0) {
         console.log("\nData Issues:");
         result.dailyBrief.dataValidation.issues.forEach((issue: string) => {
           console.log(`- ${issue}`);
         });
       }
+      if (result.dailyBrief.dataValidation.warnings.length > 0) {
+        console.log("\nData Warnings:");
+        result.dailyBrief.dataValidation.warnings.forEach((warning) => {
+          console.log(`- ${warning}`);
+        });
+      }
 
       console.log("\nKey Metrics:");
-      const roas = result.dailyBrief.metricsAnalysis.roas;
-      const cac = result.dailyBrief.metricsAnalysis.cac;
+      result.dailyBrief.metricsAnalysis.metrics.forEach((metric) => {
+        console.log(
+          `- ${metric.name}: ${formatMetricValue(
+            metric,
+            metric.current,
+            config.analysis.reportingCurrency
+          )} (${
+            metric.percentageChange >= 0 ? "+" : ""
+          }${metric.percentageChange.toFixed(2)}%, ${
+            metric.tested ? `p=${metric.pValue.toFixed(3)}` : "not tested"
+          }${metric.isSignificant ? `, ${metric.assessment}` : ""})`
+        );
+      });
 
+      console.log("\nAttributed ROAS by Channel:");
+      const attributionModels = result.dailyBrief.attributionAnalysis.models;
+      attributionModels[0]?.channels
+        .filter((channel) => channel.spend > 0)
+        .slice(0, 3)
+        .forEach((channel) => {
+          const roasByModel = attributionModels.map(
+            (m) =>
+              `${m.model} ${(
+                m.channels.find((c) => c.name === channel.name)?.roas || 0
+              ).toFixed(2)}`
+          );
+          console.log(`- ${channel.name}: ${roasByModel.join(", ")}`);
+        });
+
+      console.log("\nTop Revenue Movers:");
+      result.dailyBrief.drillDown.dimensions
+        .filter((d) => d.sliceCount > 1 && d.topMovers.length > 0)
+        .forEach((d) => {
+          const mover = d.topMovers[0];
+          console.log(
+            `- ${d.dimension}: ${mover.value} (${
+              mover.revenueChange >= 0 ? "+" : ""
+            }${mover.revenueChange.toFixed(2)})`
+          );
+        });
+
+      console.log("\nConversion Lag:");
+      result.dailyBrief.conversionLag.stages.forEach((s) => {
+        const { medianDays, p90Days } = s.overall;
+        if (medianDays === null || p90Days === null) return;
+        const maturing = s.recentDays.filter((d) => d.maturing);
+        console.log(
+          `- ${s.name}: median ${medianDays.toFixed(
+            1
+          )} days, p90 ${p90Days.toFixed(1)} days${
+            maturing.length > 0 ? `, maturing since ${maturing[0].date}` : ""
+          }`
+        );
+      });
+
+      const { overall } = result.dailyBrief.customerValue;
       console.log(
-        `- ROAS: ${roas.current.toFixed(2)} (${
-          roas.percentageChange >= 0 ? "+" : ""
-        }${roas.percentageChange.toFixed(2)}%)`
+        `\nCustomer Value: ${overall.repeatPurchaseRate.toFixed(
+          2
+        )}% repeat purchase rate${
+          overall.ltvToCac !== null
+            ? `, LTV:CAC ${overall.ltvToCac.toFixed(2)}`
+            : ""
+        }`
       );
-      console.log(
-        `- CAC: ${cac.current.toFixed(2)} (${
-          cac.percentageChange >= 0 ? "+" : ""
-        }${cac.percentageChange.toFixed(2)}%)`
+
+      const { anomalies } = result.dailyBrief.anomalies;
+      if (anomalies.length > 0) {
+        console.log("\nAnomalies:");
+        anomalies.forEach((anomaly) => {
+          console.log(
+            `- ${anomaly.metric}: ${anomaly.observed.toFixed(
+              2
+            )} vs expected ${anomaly.expected.toFixed(2)} (${anomaly.severity})`
+          );
+        });
+      }
+
+      const { forecast } = result.dailyBrief;
+      if (forecast.forecasts.length > 0) {
+        console.log(`\nForecast (next ${forecast.horizonDays} days):`);
+        forecast.forecasts.forEach((f) => {
+          console.log(
+            `- ${f.metric}: ${f.horizon.value.toFixed(
+              2
+            )} (${f.horizon.lower.toFixed(2)} to ${f.horizon.upper.toFixed(
+              2
+            )}), ${f.outlook.replace("_", " ")} recent pace`
+          );
+        });
+      }
+
+      const { budgetRecommendations } = result.dailyBrief;
+      const shifts = budgetRecommendations.recommendations.filter(
+        (r) => r.action === "increase" || r.action === "decrease"
       );
+      if (shifts.length > 0) {
+        console.log(
+          `\nBudget Shifts (by ${
+            budgetRecommendations.level
+          }, projected revenue ${
+            budgetRecommendations.revenueLift >= 0 ? "+" : ""
+          }${budgetRecommendations.revenueLiftPercent.toFixed(2)}%):`
+        );
+        shifts.forEach((r) => {
+          console.log(
+            `- ${r.name}: ${r.currentDailySpend.toFixed(
+              2
+            )}/day -> ${r.recommendedDailySpend.toFixed(2)}/day`
+          );
+        });
+      }
+
+      if (result.dailyBrief.experimentAnalysis) {
+        console.log("\nTest vs Control:");
+        result.dailyBrief.experimentAnalysis.comparisons.forEach(
+          (comparison) => {
+            console.log(
+              `- ${comparison.metric}: ${comparison.test.toFixed(
+                2
+              )} vs ${comparison.control.toFixed(2)} (${
+                comparison.relativeLift >= 0 ? "+" : ""
+              }${comparison.relativeLift.toFixed(2)}%, ${comparison.verdict})`
+            );
+          }
+        );
+      }
 
       console.log("\nSummary:");
       console.log(result.dailyBrief.summary);
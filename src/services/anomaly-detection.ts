@@ -0,0 +1,196 @@
+import {
+  Anomaly,
+  AnomalyAnalysis,
+  AnomalySeverity,
+  DailySeries,
+} from "../types";
+import { addDays, daysBetween } from "../utils/date-utils";
+import { median, scaledMad } from "../utils/statistics";
+import { getMissingDates, groupMissingDates } from "./time-series";
+
+// Days before the analysis date used as the baseline (four full weeks)
+export const ANOMALY_BASELINE_DAYS = 28;
+
+// Fewest baseline days needed to judge a metric
+const MIN_BASELINE_DAYS = 14;
+
+// Robust deviations from the expected value at which each severity starts
+const SEVERITY_THRESHOLDS: { severity: AnomalySeverity; deviation: number }[] =
+  [
+    { severity: "high", deviation: 6 },
+    { severity: "medium", deviation: 4.5 },
+    { severity: "low", deviation: 3 },
+  ];
+
+// Smallest spread assumed around the expected value, relative to it, so
+// nearly constant series don't flag every small change
+const MIN_RELATIVE_SPREAD = 0.05;
+
+/**
+ * Get the severity of a deviation, or undefined if it is within normal range
+ */
+function getSeverity(deviation: number): AnomalySeverity | undefined {
+  return SEVERITY_THRESHOLDS.find((t) => Math.abs(deviation) >= t.deviation)
+    ?.severity;
+}
+
+/**
+ * Check one daily series for an anomaly on a date. The expected value is the
+ * median of the same weekday in the baseline, and the spread is the scaled
+ * MAD of every baseline day's distance from its own weekday median, so
+ * weekly seasonality doesn't count as noise. Days without data are left out
+ * of the baseline.
+ * @param series Daily series of one metric
+ * @param date Date to check
+ * @returns The anomaly, null if the value is normal, or undefined if the
+ * series has too little baseline or no value on the date
+ */
+export function detectSeriesAnomaly(
+  series: DailySeries,
+  date: string
+): Anomaly | null | undefined {
+  const observed = series.points.find((p) => p.date === date)?.value;
+  const baseline = series.points.filter(
+    (p): p is { date: string; value: number } => {
+      const age = daysBetween(p.date, date);
+      return p.value !== null && age > 0 && age <= ANOMALY_BASELINE_DAYS;
+    }
+  );
+
+  if (
+    observed === undefined ||
+    observed === null ||
+    baseline.length < MIN_BASELINE_DAYS
+  ) {
+    return undefined;
+  }
+
+  // Baseline values by weekday, as days before the date modulo 7
+  const byWeekday = new Map<number, number[]>();
+  baseline.forEach((p) => {
+    const weekday = daysBetween(p.date, date) % 7;
+    byWeekday.set(weekday, [...(byWeekday.get(weekday) || []), p.value]);
+  });
+  const weekdayMedians = new Map(
+    [...byWeekday.entries()].map(([weekday, values]) => [
+      weekday,
+      median(values),
+    ])
+  );
+
+  const expected =
+    weekdayMedians.get(0) ?? median(baseline.map((p) => p.value));
+  const residuals = baseline.map(
+    (p) => p.value - weekdayMedians.get(daysBetween(p.date, date) % 7)!
+  );
+  // A series that was always zero is judged in its own units
+  const spread =
+    Math.max(scaledMad(residuals), Math.abs(expected) * MIN_RELATIVE_SPREAD) ||
+    1;
+
+  const lowThreshold = SEVERITY_THRESHOLDS[SEVERITY_THRESHOLDS.length - 1];
+  const lowerBound = expected - lowThreshold.deviation * spread;
+  const upperBound = expected + lowThreshold.deviation * spread;
+
+  const deviation = (observed - expected) / spread;
+  const severity = getSeverity(deviation);
+  if (!severity) return null;
+
+  return {
+    metric: series.metric,
+    date,
+    observed,
+    expected,
+    lowerBound,
+    upperBound,
+    deviation,
+    direction: observed > expected ? "above" : "below",
+    severity,
+  };
+}
+
+/**
+ * Detect anomalies on the analysis date in every daily KPI series against a
+ * day-of-week aware baseline of the previous four weeks
+ * @param series Daily series of each KPI, covering the baseline and the date
+ * @param date Analysis date
+ * @returns Anomaly analysis for the daily brief
+ */
+export function detectAnomalies(
+  series: DailySeries[],
+  date: string
+): AnomalyAnalysis {
+  const anomalies: Anomaly[] = [];
+  const checkedMetrics: AnomalyAnalysis["checkedMetrics"] = [];
+  const uncheckedMetrics: string[] = [];
+  const missingDates: AnomalyAnalysis["missingDates"] = {};
+  const window = {
+    startDate: addDays(date, -ANOMALY_BASELINE_DAYS),
+    endDate: addDays(date, 1),
+  };
+
+  series.forEach((s) => {
+    const missing = getMissingDates(s, window);
+    if (missing.length > 0) missingDates[s.metric] = missing;
+
+    const result = detectSeriesAnomaly(s, date);
+    if (result === undefined) {
+      uncheckedMetrics.push(s.metric);
+      return;
+    }
+
+    checkedMetrics.push(s.metric);
+    if (result) anomalies.push(result);
+  });
+
+  const severityOrder: AnomalySeverity[] = ["high", "medium", "low"];
+  anomalies.sort(
+    (a, b) =>
+      severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+      Math.abs(b.deviation) - Math.abs(a.deviation)
+  );
+
+  const insights = anomalies.map(
+    (a) =>
+      `${a.metric} was ${a.observed.toFixed(2)} on ${date}, ${
+        a.direction
+      } the expected ${a.expected.toFixed(2)} (normal range ${Math.max(
+        a.lowerBound,
+        0
+      ).toFixed(2)} to ${a.upperBound.toFixed(2)}): ${a.severity} severity`
+  );
+
+  if (checkedMetrics.length > 0 && anomalies.length === 0) {
+    insights.push(
+      `No anomalies on ${date} across ${checkedMetrics.join(", ")}`
+    );
+  }
+  if (uncheckedMetrics.length > 0) {
+    insights.push(
+      `Not enough history (at least ${MIN_BASELINE_DAYS} days) or no data on ${date} to check ${uncheckedMetrics.join(
+        ", "
+      )}`
+    );
+  }
+  groupMissingDates(
+    series.map((s) => ({
+      metric: s.metric,
+      dates: missingDates[s.metric] || [],
+    }))
+  ).forEach(({ metrics, dates }) => {
+    insights.push(
+      `No ${metrics.join(", ")} data on ${dates.join(
+        ", "
+      )}; missing days were left out of the check rather than counted as zero`
+    );
+  });
+
+  return {
+    date,
+    baselineDays: ANOMALY_BASELINE_DAYS,
+    checkedMetrics,
+    missingDates,
+    anomalies,
+    insights,
+  };
+}
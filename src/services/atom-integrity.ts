@@ -0,0 +1,324 @@
+import {
+  Atom,
+  AtomIntegrityIssue,
+  AtomIntegrityIssueKind,
+  AtomIntegrityReport,
+  AtomReferencingDataset,
+  DataSet,
+} from "../types";
+
+// Source names of atoms that stand in for an unknown source
+const PLACEHOLDER_SOURCE_NAMES = new Set(["unknown source"]);
+
+// Atom ids quoted in each issue
+const MAX_SAMPLE_ATOM_IDS = 10;
+
+// Label of records with an empty atom id
+const EMPTY_ATOM_ID = "(empty)";
+
+// Results and spend of the records of one dataset that share a problem
+interface AtomRecords {
+  atomIds: Map<string, number>; // rows per atom id
+  rows: number;
+  revenue: number;
+  conversions: number;
+  spend: number;
+}
+
+const emptyRecords = (): AtomRecords => ({
+  atomIds: new Map(),
+  rows: 0,
+  revenue: 0,
+  conversions: 0,
+  spend: 0,
+});
+
+/**
+ * Whether an atom only stands in for an unknown source: a negative id such as
+ * "-20", or a source named "Unknown Source"
+ * @param atom Atom
+ * @returns True for placeholder atoms
+ */
+export function isPlaceholderAtom(atom: Atom): boolean {
+  return (
+    Number(atom.atomId) < 0 ||
+    PLACEHOLDER_SOURCE_NAMES.has(atom.sourceName.trim().toLowerCase())
+  );
+}
+
+const formatShare = (part: number, total: number) =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "0%";
+
+/**
+ * Check that the atom ids of leads, contacts, transactions and spend resolve
+ * to real atoms: ids missing from Atoms, results on placeholder atoms, spend
+ * on atoms without metadata, paid atoms with results but no spend, whose
+ * results would look free, and paid atoms with neither spend nor results.
+ * Each problem becomes an issue with the rows, revenue, conversions and spend
+ * it affects.
+ * @param data Loaded data
+ * @returns Integrity report with one issue per problem and dataset
+ */
+export function analyzeAtomIntegrity(data: DataSet): AtomIntegrityReport {
+  const atomById = new Map(data.atoms.map((atom) => [atom.atomId, atom]));
+  const placeholderIds = new Set(
+    data.atoms.filter(isPlaceholderAtom).map((atom) => atom.atomId)
+  );
+
+  // Records of each dataset on missing and on placeholder atoms
+  const orphans = new Map<AtomReferencingDataset, AtomRecords>();
+  const placeholders = new Map<AtomReferencingDataset, AtomRecords>();
+  const add = (
+    dataset: AtomReferencingDataset,
+    atomId: string,
+    amounts: { revenue?: number; conversions?: number; spend?: number }
+  ) => {
+    const id = atomId.trim();
+    let groups: Map<AtomReferencingDataset, AtomRecords>;
+    if (!atomById.has(id)) groups = orphans;
+    else if (placeholderIds.has(id)) groups = placeholders;
+    else return;
+
+    const records = groups.get(dataset) || emptyRecords();
+    const label = id || EMPTY_ATOM_ID;
+    records.atomIds.set(label, (records.atomIds.get(label) || 0) + 1);
+    records.rows++;
+    records.revenue += amounts.revenue ?? 0;
+    records.conversions += amounts.conversions ?? 0;
+    records.spend += amounts.spend ?? 0;
+    groups.set(dataset, records);
+  };
+
+  data.leads.forEach((lead) => add("leads", lead.atomid, {}));
+  data.contacts.forEach((contact) => add("contacts", contact.atomid, {}));
+  data.transactions.forEach((tx) =>
+    add("transactions", tx.atomid, {
+      revenue: tx.paidSumOriginalCurrency,
+      conversions: 1,
+    })
+  );
+  data.sourceData
+    .filter((sd) => sd.budgetSpent > 0)
+    .forEach((sd) => add("sourceData", sd.atomId, { spend: sd.budgetSpent }));
+
+  const revenue = data.transactions.reduce(
+    (sum, tx) => sum + tx.paidSumOriginalCurrency,
+    0
+  );
+  const conversions = data.transactions.length;
+  const totalSpend = data.sourceData.reduce(
+    (sum, sd) => sum + sd.budgetSpent,
+    0
+  );
+  const rowsOf = (dataset: AtomReferencingDataset) =>
+    dataset === "sourceData" ? data.sourceData.length : data[dataset].length;
+
+  const issues: AtomIntegrityIssue[] = [];
+  const pushIssue = (
+    kind: AtomIntegrityIssueKind,
+    dataset: AtomIntegrityIssue["dataset"],
+    records: AtomRecords,
+    message: string
+  ) => {
+    issues.push({
+      kind,
+      dataset,
+      atoms: records.atomIds.size,
+      rows: records.rows,
+      revenue: records.revenue,
+      conversions: records.conversions,
+      spend: records.spend,
+      sampleAtomIds: [...records.atomIds.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SAMPLE_ATOM_IDS)
+        .map(([atomId]) => atomId),
+      message,
+    });
+  };
+
+  // Results whose atom is missing from Atoms or is a placeholder
+  (["leads", "contacts", "transactions"] as AtomReferencingDataset[]).forEach(
+    (dataset) => {
+      const describe = (records: AtomRecords) =>
+        `${records.rows} of ${rowsOf(dataset)} ${dataset} (${formatShare(
+          records.rows,
+          rowsOf(dataset)
+        )})${
+          dataset === "transactions"
+            ? ` and ${records.revenue.toFixed(2)} of revenue (${formatShare(
+                records.revenue,
+                revenue
+              )})`
+            : ""
+        }`;
+
+      const orphan = orphans.get(dataset);
+      if (orphan) {
+        pushIssue(
+          "orphan_atom",
+          dataset,
+          orphan,
+          `${describe(orphan)} reference ${
+            orphan.atomIds.size
+          } atom ids missing from Atoms`
+        );
+      }
+      const placeholder = placeholders.get(dataset);
+      if (placeholder) {
+        pushIssue(
+          "placeholder_atom",
+          dataset,
+          placeholder,
+          `${describe(placeholder)} land on ${
+            placeholder.atomIds.size
+          } placeholder or unknown-source atoms`
+        );
+      }
+    }
+  );
+
+  // Spend on atoms that are missing or carry no real metadata
+  const spendWithoutMetadata = emptyRecords();
+  [orphans.get("sourceData"), placeholders.get("sourceData")].forEach(
+    (records) => {
+      if (!records) return;
+      records.atomIds.forEach((rows, atomId) =>
+        spendWithoutMetadata.atomIds.set(atomId, rows)
+      );
+      spendWithoutMetadata.rows += records.rows;
+      spendWithoutMetadata.spend += records.spend;
+    }
+  );
+  if (spendWithoutMetadata.rows > 0) {
+    pushIssue(
+      "spend_without_metadata",
+      "sourceData",
+      spendWithoutMetadata,
+      `${spendWithoutMetadata.spend.toFixed(2)} of spend (${formatShare(
+        spendWithoutMetadata.spend,
+        totalSpend
+      )}) on ${
+        spendWithoutMetadata.atomIds.size
+      } atoms without a channel or campaign in Atoms`
+    );
+  }
+
+  // Paid atoms without spend; those with results make the results look free
+  const spentAtomIds = new Set(
+    data.sourceData
+      .filter((sd) => sd.budgetSpent > 0)
+      .map((sd) => sd.atomId.trim())
+  );
+  const unspentPaidIds = new Set(
+    data.atoms
+      .filter(
+        (atom) =>
+          atom.isPaidName.trim().toLowerCase() === "paid" &&
+          !placeholderIds.has(atom.atomId) &&
+          !spentAtomIds.has(atom.atomId)
+      )
+      .map((atom) => atom.atomId)
+  );
+  const unspentWithResults = emptyRecords();
+  const addUnspent = (atomId: string, revenue: number, conversions: number) => {
+    const id = atomId.trim();
+    if (!unspentPaidIds.has(id)) return;
+    unspentWithResults.atomIds.set(
+      id,
+      (unspentWithResults.atomIds.get(id) || 0) + 1
+    );
+    unspentWithResults.rows++;
+    unspentWithResults.revenue += revenue;
+    unspentWithResults.conversions += conversions;
+  };
+  data.leads.forEach((lead) => addUnspent(lead.atomid, 0, 0));
+  data.contacts.forEach((contact) => addUnspent(contact.atomid, 0, 0));
+  data.transactions.forEach((tx) =>
+    addUnspent(tx.atomid, tx.paidSumOriginalCurrency, 1)
+  );
+  if (unspentWithResults.rows > 0) {
+    pushIssue(
+      "metadata_without_spend",
+      "atoms",
+      unspentWithResults,
+      `${unspentWithResults.atomIds.size} paid atoms have no spend but ${
+        unspentWithResults.rows
+      } leads, contacts and payments, with ${unspentWithResults.revenue.toFixed(
+        2
+      )} of revenue`
+    );
+  }
+
+  // Paid atoms with neither spend nor results: tracking or spend may be
+  // missing, or the atom isn't running
+  const idlePaid = emptyRecords();
+  unspentPaidIds.forEach((id) => {
+    if (unspentWithResults.atomIds.has(id)) return;
+    idlePaid.atomIds.set(id, 1);
+    idlePaid.rows++;
+  });
+  if (idlePaid.rows > 0) {
+    pushIssue(
+      "idle_paid_atom",
+      "atoms",
+      idlePaid,
+      `${idlePaid.atomIds.size} paid atoms have neither spend nor leads, contacts or payments`
+    );
+  }
+
+  const sumOf = (
+    groups: Map<AtomReferencingDataset, AtomRecords>,
+    field: "revenue" | "conversions"
+  ) => groups.get("transactions")?.[field] ?? 0;
+
+  return {
+    atoms: data.atoms.length,
+    placeholderAtoms: placeholderIds.size,
+    paidAtomsWithoutSpend: unspentPaidIds.size,
+    revenue: {
+      total: revenue,
+      orphan: sumOf(orphans, "revenue"),
+      placeholder: sumOf(placeholders, "revenue"),
+    },
+    conversions: {
+      total: conversions,
+      orphan: sumOf(orphans, "conversions"),
+      placeholder: sumOf(placeholders, "conversions"),
+    },
+    issues,
+  };
+}
+
+/**
+ * Turn the atom integrity report into data quality issues and suggestions
+ * @param report Atom integrity report
+ * @returns One issue per integrity problem, with a suggestion per kind
+ */
+export function checkAtomIntegrity(report: AtomIntegrityReport) {
+  const issues = report.issues.map((issue) => issue.message);
+  const suggestions: string[] = [];
+  const kinds = new Set(report.issues.map((issue) => issue.kind));
+
+  if (kinds.has("orphan_atom") || kinds.has("spend_without_metadata")) {
+    suggestions.push(
+      "Reload Atoms with every atom referenced by leads, contacts, transactions and spend, so their results and costs reach a channel and campaign"
+    );
+  }
+  if (kinds.has("placeholder_atom")) {
+    suggestions.push(
+      "Tag the landing pages and forms that feed placeholder atoms so leads and payments keep their real source"
+    );
+  }
+  if (kinds.has("metadata_without_spend")) {
+    suggestions.push(
+      "Check the spend export of paid atoms that have results but no spend; their ROAS and CAC are overstated"
+    );
+  }
+  if (kinds.has("idle_paid_atom")) {
+    suggestions.push(
+      "Check the tracking and spend export of paid atoms with neither spend nor results, or mark them as unpaid if they no longer run"
+    );
+  }
+
+  return { issues, suggestions };
+}
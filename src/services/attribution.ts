@@ -0,0 +1,361 @@
+import {
+  Atom,
+  AttributedPerformance,
+  AttributionAnalysis,
+  AttributionModel,
+  Contact,
+  Lead,
+  SourceData,
+  Transaction,
+} from "../types";
+import { parseTimestamp } from "../utils/date-utils";
+import { getPersonId } from "./identity-resolution";
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = [
+  "first_touch",
+  "last_touch",
+  "linear",
+  "time_decay",
+  "position_based",
+];
+
+// Share of the credit given to each of the first and last touches by the
+// position-based model; the rest is split evenly between the middle touches
+const POSITION_BASED_ENDPOINT_SHARE = 0.4;
+
+// Channel of touchpoints whose atom is not in the atoms table
+const UNKNOWN_CHANNEL = "Unknown";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A lead, contact or transaction of a client, as a touch of an atom
+export interface Touchpoint {
+  atomId: string;
+  time: number;
+  // Flagged by the source as the first touch used for attribution
+  isFirst: boolean;
+}
+
+/**
+ * Parse a timestamp into epoch milliseconds, NaN if it can't be parsed
+ */
+function toTime(dateTime: string): number {
+  return parseTimestamp(dateTime) ?? NaN;
+}
+
+/**
+ * Build the touchpoint journey of every person from the atoms of their
+ * leads, contacts and transactions, sorted by time. Leads and contacts flagged
+ * with ch_isFirst4ContactAttribution or ch_isFirst mark the start of the
+ * journey, so earlier touches are dropped. Records that belong to no person
+ * join no journey.
+ * @param leads Leads of the period
+ * @param contacts Contacts of the period
+ * @param transactions Transactions of the period
+ * @returns Journeys keyed by person id
+ */
+export function buildJourneys(
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[]
+): Map<string, Touchpoint[]> {
+  const journeys = new Map<string, Touchpoint[]>();
+  const add = (person: string, touchpoint: Touchpoint) => {
+    if (!person || Number.isNaN(touchpoint.time)) return;
+    if (!journeys.has(person)) journeys.set(person, []);
+    journeys.get(person)!.push(touchpoint);
+  };
+
+  leads.forEach((lead) =>
+    add(getPersonId(lead), {
+      atomId: lead.atomid,
+      time: toTime(lead.datetimeCreatedShifted),
+      isFirst: lead.ch_isFirst4ContactAttribution,
+    })
+  );
+  contacts.forEach((contact) =>
+    add(getPersonId(contact), {
+      atomId: contact.atomid,
+      time: toTime(contact.datetimeCreatedShifted),
+      isFirst: contact.ch_isFirst || contact.ch_isFirst4ContactAttribution,
+    })
+  );
+  transactions.forEach((tx) =>
+    add(getPersonId(tx), {
+      atomId: tx.atomid,
+      time: toTime(tx.paymentDatetimeShifted),
+      isFirst: false,
+    })
+  );
+
+  journeys.forEach((touchpoints, person) => {
+    touchpoints.sort((a, b) => a.time - b.time);
+    const firstIndex = touchpoints.findIndex((t) => t.isFirst);
+    journeys.set(
+      person,
+      firstIndex > 0 ? touchpoints.slice(firstIndex) : touchpoints
+    );
+  });
+
+  return journeys;
+}
+
+/**
+ * Touchpoints of a payment's journey up to the payment. A payment that
+ * belongs to no person is its own one-touch journey, so it's never credited
+ * to other clients' touches.
+ * @param journeys Journeys keyed by person id
+ * @param tx Payment
+ * @returns Touchpoints up to the payment, sorted by time
+ */
+export function getPaymentTouchpoints(
+  journeys: Map<string, Touchpoint[]>,
+  tx: Transaction
+): Touchpoint[] {
+  const conversionTime = toTime(tx.paymentDatetimeShifted);
+  const person = getPersonId(tx);
+  if (!person) {
+    return Number.isNaN(conversionTime)
+      ? []
+      : [{ atomId: tx.atomid, time: conversionTime, isFirst: false }];
+  }
+  return (journeys.get(person) || []).filter((t) => t.time <= conversionTime);
+}
+
+/**
+ * Split the credit of one conversion between the touchpoints that led to it
+ * @param model Attribution model
+ * @param touchpoints Touchpoints up to the conversion, sorted by time
+ * @param conversionTime Time of the conversion
+ * @param halfLifeDays Half-life of a touch's credit in the time-decay model
+ * @returns Credit of each touchpoint, summing to 1
+ */
+export function getCreditWeights(
+  model: AttributionModel,
+  touchpoints: Touchpoint[],
+  conversionTime: number,
+  halfLifeDays: number
+): number[] {
+  const count = touchpoints.length;
+  if (count === 0) return [];
+
+  switch (model) {
+    case "first_touch":
+      return touchpoints.map((_, i) => (i === 0 ? 1 : 0));
+    case "last_touch":
+      return touchpoints.map((_, i) => (i === count - 1 ? 1 : 0));
+    case "linear":
+      return touchpoints.map(() => 1 / count);
+    case "time_decay": {
+      const decay = touchpoints.map((t) =>
+        Math.pow(0.5, (conversionTime - t.time) / DAY_MS / halfLifeDays)
+      );
+      const total = decay.reduce((sum, w) => sum + w, 0);
+      return decay.map((w) => w / total);
+    }
+    case "position_based": {
+      if (count <= 2) return touchpoints.map(() => 1 / count);
+      const middleShare = (1 - 2 * POSITION_BASED_ENDPOINT_SHARE) / (count - 2);
+      return touchpoints.map((_, i) =>
+        i === 0 || i === count - 1 ? POSITION_BASED_ENDPOINT_SHARE : middleShare
+      );
+    }
+  }
+}
+
+/**
+ * Attribute revenue and conversions of every transaction to atoms and
+ * channels under each attribution model, and compare per-channel ROAS and CAC
+ * between the models
+ * @param leads Leads of the period
+ * @param contacts Contacts of the period
+ * @param transactions Transactions of the period
+ * @param sourceData Spend of the period
+ * @param atoms Atoms, mapping atom ids to channels (source group names)
+ * @param halfLifeDays Half-life of a touch's credit in the time-decay model
+ * @returns Attribution analysis for the daily brief
+ */
+export function analyzeAttribution(
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  sourceData: SourceData[],
+  atoms: Atom[],
+  halfLifeDays: number
+): AttributionAnalysis {
+  const journeys = buildJourneys(leads, contacts, transactions);
+
+  const channelOf = new Map(
+    atoms.map((atom) => [atom.atomId, atom.sourceGroupName || UNKNOWN_CHANNEL])
+  );
+  const getChannel = (atomId: string) =>
+    channelOf.get(atomId) || UNKNOWN_CHANNEL;
+
+  const atomSpend = new Map<string, number>();
+  sourceData.forEach((sd) =>
+    atomSpend.set(sd.atomId, (atomSpend.get(sd.atomId) || 0) + sd.budgetSpent)
+  );
+
+  const models = ATTRIBUTION_MODELS.map((model) => {
+    const credits = new Map<
+      string,
+      { revenue: number; conversions: number; customers: number }
+    >();
+
+    transactions.forEach((tx) => {
+      const conversionTime = toTime(tx.paymentDatetimeShifted);
+      const touchpoints = getPaymentTouchpoints(journeys, tx);
+      const weights = getCreditWeights(
+        model,
+        touchpoints,
+        conversionTime,
+        halfLifeDays
+      );
+
+      touchpoints.forEach((touchpoint, i) => {
+        const credit = credits.get(touchpoint.atomId) || {
+          revenue: 0,
+          conversions: 0,
+          customers: 0,
+        };
+        credit.revenue += tx.paidSumOriginalCurrency * weights[i];
+        credit.conversions += weights[i];
+        if (tx.ch_isFirstClientPaid) credit.customers += weights[i];
+        credits.set(touchpoint.atomId, credit);
+      });
+    });
+
+    const atomIds = new Set([...credits.keys(), ...atomSpend.keys()]);
+    const atomPerformance = [...atomIds].map((atomId) =>
+      toPerformance(
+        atomId,
+        atomSpend.get(atomId) || 0,
+        credits.get(atomId) || { revenue: 0, conversions: 0, customers: 0 }
+      )
+    );
+
+    // Roll atoms up into their channels
+    const channelTotals = new Map<
+      string,
+      { spend: number; revenue: number; conversions: number; customers: number }
+    >();
+    atomPerformance.forEach((atom) => {
+      const channel = getChannel(atom.name);
+      const totals = channelTotals.get(channel) || {
+        spend: 0,
+        revenue: 0,
+        conversions: 0,
+        customers: 0,
+      };
+      totals.spend += atom.spend;
+      totals.revenue += atom.revenue;
+      totals.conversions += atom.conversions;
+      totals.customers += atom.customers;
+      channelTotals.set(channel, totals);
+    });
+
+    const byRevenue = (a: AttributedPerformance, b: AttributedPerformance) =>
+      b.revenue - a.revenue;
+
+    return {
+      model,
+      channels: [...channelTotals.entries()]
+        .map(([name, totals]) => toPerformance(name, totals.spend, totals))
+        .sort(byRevenue),
+      atoms: atomPerformance.sort(byRevenue),
+    };
+  });
+
+  const journeyLengths = [...journeys.values()].map((j) => j.length);
+  const journeySummary = {
+    total: journeyLengths.length,
+    multiTouch: journeyLengths.filter((length) => length > 1).length,
+    averageTouchpoints:
+      journeyLengths.length > 0
+        ? journeyLengths.reduce((sum, length) => sum + length, 0) /
+          journeyLengths.length
+        : 0,
+  };
+
+  return {
+    journeys: journeySummary,
+    models,
+    insights: generateAttributionInsights(journeySummary, models),
+  };
+}
+
+/**
+ * Combine spend with credited revenue and conversions into ROAS and CAC
+ */
+function toPerformance(
+  name: string,
+  spend: number,
+  credit: { revenue: number; conversions: number; customers: number }
+): AttributedPerformance {
+  return {
+    name,
+    spend,
+    revenue: credit.revenue,
+    conversions: credit.conversions,
+    customers: credit.customers,
+    roas: spend > 0 ? credit.revenue / spend : 0,
+    cac: credit.customers > 0 ? spend / credit.customers : 0,
+  };
+}
+
+/**
+ * Describe journey lengths, the top channel under each model and the channel
+ * whose ROAS depends most on the attribution model
+ */
+function generateAttributionInsights(
+  journeys: AttributionAnalysis["journeys"],
+  models: AttributionAnalysis["models"]
+): string[] {
+  const insights: string[] = [
+    `${journeys.multiTouch} of ${
+      journeys.total
+    } client journeys have more than one touchpoint (${journeys.averageTouchpoints.toFixed(
+      2
+    )} touchpoints on average)`,
+  ];
+
+  models.forEach(({ model, channels }) => {
+    const top = channels[0];
+    if (top && top.revenue > 0) {
+      insights.push(
+        `Under ${model} attribution, ${
+          top.name
+        } earns the most revenue (${top.revenue.toFixed(2)}, ${
+          top.spend > 0 ? `ROAS ${top.roas.toFixed(2)}` : "no tracked spend"
+        })`
+      );
+    }
+  });
+
+  // Spread of each paid channel's ROAS across the models
+  let widest: { name: string; min: number; max: number } | undefined;
+  models[0]?.channels
+    .filter((channel) => channel.spend > 0)
+    .forEach((channel) => {
+      const roas = models.map(
+        (m) => m.channels.find((c) => c.name === channel.name)?.roas || 0
+      );
+      const min = Math.min(...roas);
+      const max = Math.max(...roas);
+      if (!widest || max - min > widest.max - widest.min) {
+        widest = { name: channel.name, min, max };
+      }
+    });
+
+  if (widest && widest.max > widest.min) {
+    insights.push(
+      `${widest.name} ROAS ranges from ${widest.min.toFixed(
+        2
+      )} to ${widest.max.toFixed(
+        2
+      )} depending on the attribution model, so its budget decisions should not rely on a single model`
+    );
+  }
+
+  return insights;
+}
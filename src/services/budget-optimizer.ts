@@ -0,0 +1,613 @@
+import {
+  Atom,
+  AttributionModel,
+  BudgetBounds,
+  BudgetLevel,
+  BudgetRecommendation,
+  BudgetRecommendations,
+  Contact,
+  Lead,
+  ResponseCurve,
+  SourceData,
+  Transaction,
+} from "../types";
+import {
+  addDays,
+  extractDatePart,
+  formatReportingDate,
+  parseTimestamp,
+} from "../utils/date-utils";
+import {
+  ATTRIBUTION_MODELS,
+  buildJourneys,
+  getCreditWeights,
+  getPaymentTouchpoints,
+} from "./attribution";
+import { getAtomDimensionValue } from "./drill-down";
+
+export const BUDGET_LEVELS: BudgetLevel[] = ["channel", "campaign"];
+
+// Elasticities tried when fitting response curves, from strongly
+// diminishing to constant returns
+const ELASTICITIES = Array.from({ length: 19 }, (_, i) => 0.1 + i * 0.05);
+
+// Fewest days with spend a response curve is fitted on
+const MIN_SPEND_DAYS = 7;
+
+// Smallest coefficient of variation of daily spend a curve can be fitted
+// on; a budget that never moved says nothing about its returns
+const MIN_SPEND_VARIATION = 0.1;
+
+// Most recent days whose average spend is a unit's current budget
+const CURRENT_BUDGET_DAYS = 7;
+
+// Steps the reallocated budget is handed out in
+const ALLOCATION_STEPS = 1000;
+
+// Relative budget change below which a unit is reported as kept
+const KEEP_THRESHOLD = 0.02;
+
+// R² below which a curve is too weak a fit to reallocate budget on
+const WEAK_FIT_R_SQUARED = 0.2;
+
+// Largest increases and decreases quoted in the insights
+const QUOTED_SHIFTS = 3;
+
+// Settings of the optimizer, from the configuration
+export interface BudgetSettings {
+  level: BudgetLevel;
+  attributionModel: AttributionModel;
+  halfLifeDays: number;
+  // Largest relative change of a unit's budget without explicit bounds
+  maxChange: number;
+  // Daily spend limits by unit name, overriding maxChange
+  bounds: Record<string, BudgetBounds>;
+  // Total daily budget to allocate; the current total if undefined
+  totalDailyBudget?: number;
+}
+
+// Daily spend and attributed revenue of one unit
+interface UnitHistory {
+  spend: Map<string, number>;
+  revenue: Map<string, number>;
+}
+
+/**
+ * Parse per-unit budget bounds written as "name=min..max;name=min..max"
+ * @param value Bounds in daily spend, e.g. "Google Ads=100..400;SEO=0..0"
+ * @returns Bounds keyed by unit name
+ * @throws Error if an entry isn't "name=min..max" with 0 <= min <= max
+ */
+export function parseBudgetBounds(value: string): Record<string, BudgetBounds> {
+  const bounds: Record<string, BudgetBounds> = {};
+  value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .forEach((entry) => {
+      const match = /^(.+)=\s*([\d.]+)\s*\.\.\s*([\d.]+)$/.exec(entry);
+      const min = match ? Number(match[2]) : NaN;
+      const max = match ? Number(match[3]) : NaN;
+      if (!match || !(min >= 0) || !(max >= min)) {
+        throw new Error(
+          `Invalid budget bounds: ${entry}. Expected name=min..max`
+        );
+      }
+      bounds[match[1].trim()] = { min, max };
+    });
+  return bounds;
+}
+
+/**
+ * Fit daily revenue = scale * spend ^ elasticity by least squares, choosing
+ * the elasticity from a grid; the best scale for each elasticity has a
+ * closed form
+ * @param points Daily spend (positive) and attributed revenue
+ * @returns Fitted curve
+ */
+export function fitResponseCurve(
+  points: { spend: number; revenue: number }[]
+): ResponseCurve {
+  const meanRevenue =
+    points.reduce((sum, p) => sum + p.revenue, 0) / points.length;
+  const totalSquares = points.reduce(
+    (sum, p) => sum + (p.revenue - meanRevenue) ** 2,
+    0
+  );
+
+  let best = { scale: 0, elasticity: 1, sse: Infinity };
+  ELASTICITIES.forEach((elasticity) => {
+    const powered = points.map((p) => Math.pow(p.spend, elasticity));
+    const scale =
+      points.reduce((sum, p, i) => sum + p.revenue * powered[i], 0) /
+      powered.reduce((sum, x) => sum + x * x, 0);
+    const sse = points.reduce(
+      (sum, p, i) => sum + (p.revenue - scale * powered[i]) ** 2,
+      0
+    );
+    if (sse < best.sse) best = { scale, elasticity, sse };
+  });
+
+  return {
+    scale: best.scale,
+    elasticity: best.elasticity,
+    rSquared: totalSquares > 0 ? Math.max(1 - best.sse / totalSquares, 0) : 0,
+    days: points.length,
+  };
+}
+
+// Daily revenue on a curve
+const revenueAt = (curve: ResponseCurve, spend: number) =>
+  curve.scale * Math.pow(spend, curve.elasticity);
+
+// Revenue of one more unit of spend on a curve
+const marginalRoasAt = (curve: ResponseCurve, spend: number) =>
+  spend > 0
+    ? curve.scale * curve.elasticity * Math.pow(spend, curve.elasticity - 1)
+    : curve.elasticity < 1
+    ? Infinity
+    : curve.scale;
+
+/**
+ * Total daily spend and attributed revenue by unit. Revenue is credited to
+ * the day of each touch, so it lines up with the spend that bought the touch.
+ */
+function buildUnitHistories(
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  sourceData: SourceData[],
+  atoms: Atom[],
+  analysisDate: string,
+  settings: BudgetSettings
+): Map<string, UnitHistory> {
+  const atomById = new Map(atoms.map((atom) => [atom.atomId, atom]));
+  const unitOf = (atomId: string) =>
+    getAtomDimensionValue(
+      atomById.get(atomId),
+      settings.level === "channel" ? "sourceGroupName" : "campaignId"
+    );
+
+  const units = new Map<string, UnitHistory>();
+  const unitFor = (atomId: string) => {
+    const name = unitOf(atomId);
+    let unit = units.get(name);
+    if (!unit) {
+      unit = { spend: new Map(), revenue: new Map() };
+      units.set(name, unit);
+    }
+    return unit;
+  };
+  const addTo = (values: Map<string, number>, date: string, amount: number) =>
+    values.set(date, (values.get(date) || 0) + amount);
+
+  sourceData.forEach((sd) => {
+    const date = extractDatePart(sd.date);
+    if (date <= analysisDate)
+      addTo(unitFor(sd.atomId).spend, date, sd.budgetSpent);
+  });
+
+  const journeys = buildJourneys(leads, contacts, transactions);
+  transactions.forEach((tx) => {
+    const conversionTime = parseTimestamp(tx.paymentDatetimeShifted);
+    if (
+      conversionTime === undefined ||
+      extractDatePart(tx.paymentDatetimeShifted) > analysisDate
+    ) {
+      return;
+    }
+    const touchpoints = getPaymentTouchpoints(journeys, tx);
+    const weights = getCreditWeights(
+      settings.attributionModel,
+      touchpoints,
+      conversionTime,
+      settings.halfLifeDays
+    );
+    touchpoints.forEach((touchpoint, i) =>
+      addTo(
+        unitFor(touchpoint.atomId).revenue,
+        formatReportingDate(touchpoint.time),
+        tx.paidSumOriginalCurrency * weights[i]
+      )
+    );
+  });
+
+  return units;
+}
+
+/**
+ * Hand out a total budget between units in small steps, each to the unit
+ * with the highest marginal ROAS that is below its maximum. Response curves
+ * are concave, so this converges to the allocation that maximizes revenue.
+ * Ties, such as units without attributed revenue, go to the unit furthest
+ * below its current budget, so budget that can't earn more isn't moved.
+ */
+function allocateBudget(
+  curves: ResponseCurve[],
+  bounds: BudgetBounds[],
+  current: number[],
+  total: number
+): number[] {
+  const allocation = bounds.map((b) => b.min);
+  let remaining = total - allocation.reduce((sum, x) => sum + x, 0);
+  const step = remaining / ALLOCATION_STEPS;
+
+  while (remaining > step * 1e-6) {
+    let best = -1;
+    curves.forEach((curve, i) => {
+      if (allocation[i] >= bounds[i].max) return;
+      if (best < 0) {
+        best = i;
+        return;
+      }
+      const marginal = marginalRoasAt(curve, allocation[i]);
+      const bestMarginal = marginalRoasAt(curves[best], allocation[best]);
+      if (
+        marginal > bestMarginal ||
+        (marginal === bestMarginal &&
+          current[i] - allocation[i] > current[best] - allocation[best])
+      ) {
+        best = i;
+      }
+    });
+    if (best < 0) break;
+
+    const amount = Math.min(
+      step,
+      remaining,
+      bounds[best].max - allocation[best]
+    );
+    allocation[best] += amount;
+    remaining -= amount;
+  }
+
+  return allocation;
+}
+
+/**
+ * Recommend daily budget shifts between channels or campaigns. A response
+ * curve is fitted per unit on its daily spend and attributed revenue, and
+ * the total budget is reallocated to maximize revenue on those curves within
+ * each unit's bounds. Units with too little spend history, a curve that
+ * explains little of their revenue, or an elasticity at the edge of the
+ * fitted range keep their budget.
+ * Curves describe the spend levels seen in the data, so budgets outside
+ * them, and revenue of the most recent days that hasn't converted yet, make
+ * the projections less certain.
+ * @param leads Leads, as touchpoints of client journeys
+ * @param contacts Contacts, as touchpoints of client journeys
+ * @param transactions Transactions whose revenue is attributed
+ * @param sourceData Daily spend
+ * @param atoms Atoms, mapping atom ids to channels and campaigns
+ * @param analysisDate Last day of data considered (inclusive)
+ * @param settings Optimizer settings
+ * @returns Budget recommendations for the daily brief
+ * @throws Error if the level, attribution model, maximum change or total
+ * budget is invalid
+ */
+export function recommendBudget(
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  sourceData: SourceData[],
+  atoms: Atom[],
+  analysisDate: string,
+  settings: BudgetSettings
+): BudgetRecommendations {
+  if (!BUDGET_LEVELS.includes(settings.level)) {
+    throw new Error(
+      `Unknown budget level: ${
+        settings.level
+      }. Available levels: ${BUDGET_LEVELS.join(", ")}`
+    );
+  }
+  if (!ATTRIBUTION_MODELS.includes(settings.attributionModel)) {
+    throw new Error(
+      `Unknown attribution model: ${
+        settings.attributionModel
+      }. Available models: ${ATTRIBUTION_MODELS.join(", ")}`
+    );
+  }
+  if (!(settings.maxChange >= 0)) {
+    throw new Error(
+      `Invalid maximum budget change: ${settings.maxChange}. Expected a non-negative fraction`
+    );
+  }
+  if (
+    settings.totalDailyBudget !== undefined &&
+    !(settings.totalDailyBudget >= 0)
+  ) {
+    throw new Error(
+      `Invalid total daily budget: ${settings.totalDailyBudget}. Expected a non-negative amount`
+    );
+  }
+
+  const units = buildUnitHistories(
+    leads,
+    contacts,
+    transactions,
+    sourceData,
+    atoms,
+    analysisDate,
+    settings
+  );
+
+  const spendDates = [...units.values()]
+    .flatMap((unit) => [...unit.spend.keys()])
+    .sort();
+  const period = {
+    startDate: spendDates[0] || analysisDate,
+    endDate: addDays(analysisDate, 1),
+  };
+  const currentStart = addDays(analysisDate, 1 - CURRENT_BUDGET_DAYS);
+
+  // Fit a curve to every unit with spend, or say why it can't be fitted
+  const candidates = [...units.entries()]
+    .filter(([, unit]) => [...unit.spend.values()].some((s) => s > 0))
+    .map(([name, unit]) => {
+      let recentSpend = 0;
+      unit.spend.forEach((spend, date) => {
+        if (date >= currentStart) recentSpend += spend;
+      });
+      const currentDailySpend = recentSpend / CURRENT_BUDGET_DAYS;
+
+      const points = [...unit.spend.entries()]
+        .filter(([, spend]) => spend > 0)
+        .map(([date, spend]) => ({
+          spend,
+          revenue: unit.revenue.get(date) || 0,
+        }));
+      const mean = points.reduce((sum, p) => sum + p.spend, 0) / points.length;
+      const variation =
+        Math.sqrt(
+          points.reduce((sum, p) => sum + (p.spend - mean) ** 2, 0) /
+            points.length
+        ) / mean;
+
+      let reason: string | undefined;
+      if (currentDailySpend === 0) {
+        reason = `no spend in the last ${CURRENT_BUDGET_DAYS} days`;
+      } else if (points.length < MIN_SPEND_DAYS) {
+        reason = `${points.length} days with spend, at least ${MIN_SPEND_DAYS} needed`;
+      } else if (variation < MIN_SPEND_VARIATION) {
+        reason = "daily spend barely varied, so its returns can't be measured";
+      }
+
+      // A curve at the edge of the elasticity grid or with little fit isn't
+      // trusted to move budget, but is still reported
+      const curve = reason ? null : fitResponseCurve(points);
+      if (curve && curve.rSquared < WEAK_FIT_R_SQUARED) {
+        reason = `R² of ${curve.rSquared.toFixed(
+          2
+        )} is below ${WEAK_FIT_R_SQUARED}, so daily spend explains little of its revenue`;
+      } else if (
+        curve &&
+        (curve.elasticity === ELASTICITIES[0] ||
+          curve.elasticity === ELASTICITIES[ELASTICITIES.length - 1])
+      ) {
+        reason = `elasticity of ${curve.elasticity.toFixed(
+          2
+        )} is at the edge of the fitted range`;
+      }
+
+      const explicitBounds = settings.bounds[name];
+      return {
+        name,
+        currentDailySpend,
+        curve,
+        reason,
+        bounds: reason
+          ? { min: currentDailySpend, max: currentDailySpend }
+          : explicitBounds || {
+              min: currentDailySpend * Math.max(1 - settings.maxChange, 0),
+              max: currentDailySpend * (1 + settings.maxChange),
+            },
+      };
+    });
+
+  const optimized = candidates.filter((c) => !c.reason);
+  const currentDailyBudget = optimized.reduce(
+    (sum, c) => sum + c.currentDailySpend,
+    0
+  );
+  const minTotal = optimized.reduce((sum, c) => sum + c.bounds.min, 0);
+  const maxTotal = optimized.reduce((sum, c) => sum + c.bounds.max, 0);
+  const requestedBudget = settings.totalDailyBudget ?? currentDailyBudget;
+  // Bounds win over the total when they can't both be met
+  const recommendedDailyBudget = Math.min(
+    Math.max(requestedBudget, minTotal),
+    maxTotal
+  );
+
+  const allocation = allocateBudget(
+    optimized.map((c) => c.curve!),
+    optimized.map((c) => c.bounds),
+    optimized.map((c) => c.currentDailySpend),
+    recommendedDailyBudget
+  );
+  const allocationOf = new Map(
+    optimized.map((c, i) => [c.name, allocation[i]])
+  );
+
+  const recommendations = candidates
+    .map((c): BudgetRecommendation => {
+      const recommended = allocationOf.get(c.name) ?? c.currentDailySpend;
+      const change = recommended - c.currentDailySpend;
+      const relativeChange =
+        c.currentDailySpend > 0 ? change / c.currentDailySpend : 0;
+      // Projections only come from the curves budget is allocated on
+      const curve = c.reason ? null : c.curve;
+      const currentRevenue = curve
+        ? revenueAt(curve, c.currentDailySpend)
+        : null;
+
+      return {
+        name: c.name,
+        action: c.reason
+          ? "not_optimized"
+          : relativeChange > KEEP_THRESHOLD
+          ? "increase"
+          : relativeChange < -KEEP_THRESHOLD
+          ? "decrease"
+          : "keep",
+        reason: c.reason,
+        curve: c.curve,
+        bounds: c.bounds,
+        currentDailySpend: c.currentDailySpend,
+        recommendedDailySpend: recommended,
+        change,
+        currentRoas:
+          currentRevenue !== null && c.currentDailySpend > 0
+            ? currentRevenue / c.currentDailySpend
+            : null,
+        currentMarginalRoas: curve
+          ? marginalRoasAt(curve, c.currentDailySpend)
+          : null,
+        recommendedMarginalRoas: curve
+          ? marginalRoasAt(curve, recommended)
+          : null,
+        currentDailyRevenue: currentRevenue,
+        projectedDailyRevenue: curve ? revenueAt(curve, recommended) : null,
+      };
+    })
+    .sort((a, b) => b.change - a.change);
+
+  const currentDailyRevenue = recommendations.reduce(
+    (sum, r) => sum + (r.currentDailyRevenue ?? 0),
+    0
+  );
+  const projectedDailyRevenue = recommendations.reduce(
+    (sum, r) => sum + (r.projectedDailyRevenue ?? 0),
+    0
+  );
+  const revenueLift = projectedDailyRevenue - currentDailyRevenue;
+
+  const result: Omit<BudgetRecommendations, "insights"> = {
+    level: settings.level,
+    attributionModel: settings.attributionModel,
+    period,
+    currentDailyBudget,
+    recommendedDailyBudget,
+    currentDailyRevenue,
+    projectedDailyRevenue,
+    revenueLift,
+    revenueLiftPercent:
+      currentDailyRevenue > 0 ? (revenueLift / currentDailyRevenue) * 100 : 0,
+    recommendations,
+  };
+
+  return {
+    ...result,
+    insights: generateBudgetInsights(result, requestedBudget),
+  };
+}
+
+/**
+ * Describe the recommended shifts, their projected impact, the spread of
+ * marginal returns and the units that couldn't be optimized
+ */
+function generateBudgetInsights(
+  result: Omit<BudgetRecommendations, "insights">,
+  requestedBudget: number
+): string[] {
+  const { level, recommendations } = result;
+  const optimized = recommendations.filter((r) => r.action !== "not_optimized");
+  const insights: string[] = [];
+
+  if (optimized.length === 0) {
+    return [
+      `No ${level} has enough spend history to fit a reliable response curve, so no budget shifts are recommended`,
+      ...describeSkipped(recommendations, level),
+    ];
+  }
+
+  if (Math.abs(requestedBudget - result.recommendedDailyBudget) > 0.005) {
+    insights.push(
+      `A total daily budget of ${requestedBudget.toFixed(
+        2
+      )} doesn't fit the ${level} bounds, so ${result.recommendedDailyBudget.toFixed(
+        2
+      )} is allocated instead`
+    );
+  }
+
+  const increases = recommendations.filter((r) => r.action === "increase");
+  const decreases = recommendations.filter((r) => r.action === "decrease");
+  const describe = (group: BudgetRecommendation[]) => {
+    const largest = [...group]
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, QUOTED_SHIFTS)
+      .map(
+        (r) =>
+          `${r.name} (${r.change >= 0 ? "+" : ""}${r.change.toFixed(2)}/day)`
+      )
+      .join(", ");
+    return group.length > QUOTED_SHIFTS
+      ? `${largest} and ${group.length - QUOTED_SHIFTS} more`
+      : largest;
+  };
+  if (increases.length > 0 || decreases.length > 0) {
+    insights.push(
+      `Shift budget ${
+        decreases.length > 0 ? `from ${describe(decreases)} ` : ""
+      }${
+        increases.length > 0 ? `to ${describe(increases)}` : ""
+      }: projected attributed revenue of ${result.projectedDailyRevenue.toFixed(
+        2
+      )}/day vs ${result.currentDailyRevenue.toFixed(2)}/day (${
+        result.revenueLift >= 0 ? "+" : ""
+      }${result.revenueLiftPercent.toFixed(2)}%)`
+    );
+  } else {
+    insights.push(
+      `The current ${level} budgets are already close to the best allocation within their bounds`
+    );
+  }
+
+  const byMarginal = optimized
+    .filter((r) => Number.isFinite(r.currentMarginalRoas))
+    .sort((a, b) => b.currentMarginalRoas! - a.currentMarginalRoas!);
+  if (byMarginal.length > 1) {
+    const highest = byMarginal[0];
+    const lowest = byMarginal[byMarginal.length - 1];
+    insights.push(
+      `At current budgets, one more unit of spend returns ${highest.currentMarginalRoas!.toFixed(
+        2
+      )} on ${highest.name} but ${lowest.currentMarginalRoas!.toFixed(2)} on ${
+        lowest.name
+      }`
+    );
+  }
+
+  return [...insights, ...describeSkipped(recommendations, level)];
+}
+
+/**
+ * Describe the units left at their current budgets and why
+ */
+function describeSkipped(
+  recommendations: BudgetRecommendation[],
+  level: BudgetLevel
+): string[] {
+  const insights: string[] = [];
+
+  // Units without recent spend are only counted, they have no budget to move
+  const skipped = recommendations.filter((r) => r.action === "not_optimized");
+  const spending = skipped.filter((r) => r.currentDailySpend > 0);
+  if (spending.length > 0) {
+    insights.push(
+      `Kept at their current budgets: ${spending
+        .map((r) => `${r.name} (${r.reason})`)
+        .join(", ")}`
+    );
+  }
+  if (skipped.length > spending.length) {
+    insights.push(
+      `${
+        skipped.length - spending.length
+      } ${level}(s) with spend in the period had none in the last ${CURRENT_BUDGET_DAYS} days and were left out`
+    );
+  }
+
+  return insights;
+}
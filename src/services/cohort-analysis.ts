@@ -0,0 +1,230 @@
+import {
+  CohortAnalysis,
+  CohortGranularity,
+  Contact,
+  Lead,
+  SourceData,
+  Transaction,
+} from "../types";
+import {
+  daysBetween,
+  extractDatePart,
+  getPeriodStart,
+} from "../utils/date-utils";
+import { getPersonId } from "./identity-resolution";
+
+// Days since cohort start at which cumulative values are reported
+export const DEFAULT_COHORT_AGE_CHECKPOINTS = [0, 1, 3, 7, 14, 30, 60, 90];
+
+// Age in days after which a cohort's acquisition period is over
+const COMPLETE_COHORT_AGE: Record<CohortGranularity, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+// Minimum relative drop in cumulative ROAS reported as a quality decline
+const ROAS_DECLINE_THRESHOLD = 10;
+
+/**
+ * Build cohort tables from the cohortdate of leads, contacts and transactions.
+ * Revenue and paying people are counted cumulatively by days since the
+ * cohort start, and cumulative ROAS divides the revenue by the ad spend
+ * during the cohort period. Only cohorts starting on or after the first day
+ * with spend data are reported, since older cohorts' spend is unknown.
+ * @param leads Leads with cohort dates
+ * @param contacts Contacts with cohort dates
+ * @param transactions Transactions with cohort dates
+ * @param sourceData Daily spend data
+ * @param analysisDate Last day of data considered (inclusive)
+ * @param granularity Length of each cohort
+ * @param ageCheckpoints Days since cohort start to report
+ * @returns Cohort analysis for the daily brief
+ */
+export function analyzeCohorts(
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  sourceData: SourceData[],
+  analysisDate: string,
+  granularity: CohortGranularity,
+  ageCheckpoints: number[] = DEFAULT_COHORT_AGE_CHECKPOINTS
+): CohortAnalysis {
+  const spendDates = sourceData.map((sd) => extractDatePart(sd.date)).sort();
+  const firstSpendDate = spendDates[0];
+
+  if (!firstSpendDate) {
+    return {
+      granularity,
+      ageCheckpoints,
+      cohorts: [],
+      insights: ["No spend data available to build acquisition cohorts"],
+    };
+  }
+
+  const cohortOf = (cohortDate?: string) =>
+    cohortDate ? getPeriodStart(extractDatePart(cohortDate), granularity) : "";
+  // Cohorts starting before the first day of spend data would have partial spend
+  const isReported = (cohort: string) =>
+    cohort !== "" && cohort >= firstSpendDate && cohort <= analysisDate;
+
+  // Unique people acquired per cohort
+  const members = new Map<string, Set<string>>();
+  [...leads, ...contacts, ...transactions].forEach((entity) => {
+    const cohort = cohortOf(entity.cohortDate);
+    if (!isReported(cohort)) return;
+    if (!members.has(cohort)) members.set(cohort, new Set());
+    const person = getPersonId(entity);
+    if (person) members.get(cohort)!.add(person);
+  });
+
+  // Spend during each cohort period
+  const spend = new Map<string, number>();
+  sourceData.forEach((sd) => {
+    const cohort = getPeriodStart(extractDatePart(sd.date), granularity);
+    spend.set(cohort, (spend.get(cohort) || 0) + sd.budgetSpent);
+  });
+
+  // Payments by cohort, with their age in days since the cohort start
+  const payments = new Map<
+    string,
+    { age: number; amount: number; person: string }[]
+  >();
+  transactions.forEach((tx) => {
+    const cohort = cohortOf(tx.cohortDate);
+    if (!isReported(cohort)) return;
+
+    const paymentDate = extractDatePart(tx.paymentDatetimeShifted);
+    if (paymentDate > analysisDate) return;
+
+    const age = daysBetween(cohort, paymentDate);
+    if (age < 0) return;
+
+    if (!payments.has(cohort)) payments.set(cohort, []);
+    payments.get(cohort)!.push({
+      age,
+      amount: tx.paidSumOriginalCurrency,
+      person: getPersonId(tx),
+    });
+  });
+
+  const cohortNames = [...new Set([...members.keys(), ...payments.keys()])];
+  const cohorts = cohortNames.sort().map((cohort) => {
+    const cohortSpend = spend.get(cohort) || 0;
+    const cohortPayments = payments.get(cohort) || [];
+    const maxAge = daysBetween(cohort, analysisDate);
+
+    let previousCumulativeRevenue = 0;
+    const cells = ageCheckpoints
+      .filter((checkpoint) => checkpoint <= maxAge)
+      .map((checkpoint) => {
+        const reached = cohortPayments.filter((p) => p.age <= checkpoint);
+        const cumulativeRevenue = reached.reduce((sum, p) => sum + p.amount, 0);
+        const cell = {
+          daysSinceStart: checkpoint,
+          revenue: cumulativeRevenue - previousCumulativeRevenue,
+          cumulativeRevenue,
+          payingCustomers: new Set(
+            reached.map((p) => p.person).filter((person) => person !== "")
+          ).size,
+          cumulativeRoas:
+            cohortSpend > 0 ? cumulativeRevenue / cohortSpend : null,
+        };
+        previousCumulativeRevenue = cumulativeRevenue;
+        return cell;
+      });
+
+    return {
+      cohort,
+      cohortSize: members.get(cohort)?.size || 0,
+      spend: cohortSpend,
+      cells,
+    };
+  });
+
+  return {
+    granularity,
+    ageCheckpoints,
+    cohorts,
+    insights: generateCohortInsights(cohorts, granularity),
+  };
+}
+
+/**
+ * Compare the most recent complete cohort with the earlier ones at the
+ * oldest age it has reached, to tell whether acquisition quality is declining
+ */
+function generateCohortInsights(
+  cohorts: CohortAnalysis["cohorts"],
+  granularity: CohortGranularity
+): string[] {
+  const insights: string[] = [];
+  // Cohorts still being acquired are too young to compare
+  const withRoas = cohorts.filter(
+    (c) =>
+      c.cells.some((cell) => cell.cumulativeRoas !== null) &&
+      c.cells[c.cells.length - 1].daysSinceStart >=
+        COMPLETE_COHORT_AGE[granularity]
+  );
+
+  if (withRoas.length < 2) {
+    insights.push(
+      `Not enough ${granularity} cohorts with spend data to compare acquisition quality`
+    );
+    return insights;
+  }
+
+  const latest = withRoas[withRoas.length - 1];
+  const earlier = withRoas.slice(0, -1);
+  const latestCell = latest.cells[latest.cells.length - 1];
+  const age = latestCell.daysSinceStart;
+
+  const earlierRoas = earlier
+    .map(
+      (c) => c.cells.find((cell) => cell.daysSinceStart === age)?.cumulativeRoas
+    )
+    .filter((roas): roas is number => roas !== null && roas !== undefined);
+
+  if (earlierRoas.length === 0 || latestCell.cumulativeRoas === null) {
+    return insights;
+  }
+
+  const averageRoas =
+    earlierRoas.reduce((sum, roas) => sum + roas, 0) / earlierRoas.length;
+  const change =
+    averageRoas > 0
+      ? ((latestCell.cumulativeRoas - averageRoas) / averageRoas) * 100
+      : 0;
+
+  insights.push(
+    `Cohort ${
+      latest.cohort
+    } reached a cumulative ROAS of ${latestCell.cumulativeRoas.toFixed(
+      2
+    )} by day ${age}, ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(
+      2
+    )}% from the ${
+      earlierRoas.length
+    } earlier ${granularity} cohort(s) average of ${averageRoas.toFixed(
+      2
+    )} at the same age`
+  );
+
+  if (change <= -ROAS_DECLINE_THRESHOLD) {
+    insights.push(
+      `Recent acquisition quality is declining: the newest cohort is monetizing more slowly than earlier cohorts`
+    );
+  }
+
+  const latestConversion =
+    latest.cohortSize > 0
+      ? (latestCell.payingCustomers / latest.cohortSize) * 100
+      : 0;
+  insights.push(
+    `${latestCell.payingCustomers} of ${latest.cohortSize} clients in cohort ${
+      latest.cohort
+    } (${latestConversion.toFixed(2)}%) have paid by day ${age}`
+  );
+
+  return insights;
+}
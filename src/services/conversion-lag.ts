@@ -0,0 +1,372 @@
+import {
+  Atom,
+  Contact,
+  ConversionLagAnalysis,
+  ConversionLagStage,
+  LagDistribution,
+  Lead,
+  MaturingDay,
+  Session,
+  StageConversionLag,
+  Transaction,
+} from "../types";
+import {
+  addDays,
+  daysBetween,
+  extractDatePart,
+  parseTimestamp,
+} from "../utils/date-utils";
+import { quantile } from "../utils/statistics";
+import { UNATTRIBUTED_CHANNEL } from "./data-analysis";
+import { getPersonId } from "./identity-resolution";
+
+// Days before and including the analysis date checked for maturing rates
+const RECENT_DAYS = 14;
+
+// Share of eventual conversions a day needs before its rate is read as final
+const MATURE_COMPLETENESS = 0.95;
+
+// Fewest conversions a lag distribution needs to correct maturing rates
+const MIN_LAG_CONVERSIONS = 20;
+
+// Fewest conversions a channel needs to be compared with the overall lag
+const MIN_CHANNEL_CONVERSIONS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STAGE_NAMES: Record<ConversionLagStage, string> = {
+  session_to_lead: "Session to Lead",
+  lead_to_contact: "Lead to Contact",
+  contact_to_payment: "Contact to First Payment",
+};
+
+// Timed event of a client
+interface ClientEvent {
+  time: number;
+  date: string;
+}
+
+type EventList = "sessions" | "leads" | "contacts" | "firstPayments";
+
+// Funnel events of one client, each list oldest first
+type ClientEvents = Record<EventList, ClientEvent[]> & { channel: string };
+
+// Events a client enters and leaves each stage with
+const STAGE_EVENTS: Record<ConversionLagStage, [EventList, EventList]> = {
+  session_to_lead: ["sessions", "leads"],
+  lead_to_contact: ["leads", "contacts"],
+  contact_to_payment: ["contacts", "firstPayments"],
+};
+
+// Entry into a stage and the conversion out of it, if any
+interface StageEntry {
+  channel: string;
+  date: string;
+  lagDays?: number;
+}
+
+/**
+ * Group the funnel events up to the analysis date by person. Each
+ * client's channel is the source group of the atom on their first lead,
+ * else their first contact, else their first payment.
+ */
+function buildClientEvents(
+  sessions: Session[],
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  atoms: Atom[],
+  analysisDate: string
+): Map<string, ClientEvents> {
+  const channelOf = new Map(
+    atoms.map((atom) => [atom.atomId, atom.sourceGroupName])
+  );
+  const clients = new Map<
+    string,
+    ClientEvents & { channelTime: number; channelRank: number }
+  >();
+
+  const add = (
+    person: string,
+    timestamp: string,
+    list: EventList,
+    atomId?: string
+  ) => {
+    if (!person) return;
+    const time = parseTimestamp(timestamp);
+    const date = extractDatePart(timestamp);
+    if (time === undefined || date > analysisDate) return;
+
+    let client = clients.get(person);
+    if (!client) {
+      client = {
+        channel: UNATTRIBUTED_CHANNEL,
+        sessions: [],
+        leads: [],
+        contacts: [],
+        firstPayments: [],
+        channelTime: Infinity,
+        channelRank: Infinity,
+      };
+      clients.set(person, client);
+    }
+    client[list].push({ time, date });
+
+    // Leads take precedence over contacts, and contacts over payments
+    const channel = atomId !== undefined ? channelOf.get(atomId) : undefined;
+    const rank = ["leads", "contacts", "firstPayments"].indexOf(list);
+    if (
+      channel &&
+      (rank < client.channelRank ||
+        (rank === client.channelRank && time < client.channelTime))
+    ) {
+      client.channel = channel;
+      client.channelRank = rank;
+      client.channelTime = time;
+    }
+  };
+
+  sessions.forEach((s) => add(getPersonId(s), s.datetimeShifted, "sessions"));
+  leads.forEach((l) =>
+    add(getPersonId(l), l.datetimeCreatedShifted, "leads", l.atomid)
+  );
+  contacts.forEach((c) =>
+    add(getPersonId(c), c.datetimeCreatedShifted, "contacts", c.atomid)
+  );
+  transactions
+    .filter((tx) => tx.ch_isFirstClientPaid)
+    .forEach((tx) =>
+      add(
+        getPersonId(tx),
+        tx.paymentDatetimeShifted,
+        "firstPayments",
+        tx.atomid
+      )
+    );
+
+  const byTime = (a: ClientEvent, b: ClientEvent) => a.time - b.time;
+  clients.forEach((client) => {
+    client.sessions.sort(byTime);
+    client.leads.sort(byTime);
+    client.contacts.sort(byTime);
+    client.firstPayments.sort(byTime);
+  });
+
+  return clients;
+}
+
+/**
+ * Find the clients who entered a stage, and how long those who converted
+ * took. A client enters on their first "from" event and converts on the
+ * first "to" event at or after it.
+ */
+function getStageEntries(
+  clients: Map<string, ClientEvents>,
+  stage: ConversionLagStage
+): StageEntry[] {
+  const [fromList, toList] = STAGE_EVENTS[stage];
+
+  const entries: StageEntry[] = [];
+  clients.forEach((client) => {
+    const from = client[fromList][0];
+    if (!from) return;
+    const to = client[toList].find((event) => event.time >= from.time);
+    entries.push({
+      channel: client.channel,
+      date: from.date,
+      lagDays: to ? (to.time - from.time) / DAY_MS : undefined,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Summarize lags in days
+ */
+function describeLags(lags: number[]): LagDistribution {
+  const sorted = [...lags].sort((a, b) => a - b);
+  const at = (q: number) => (sorted.length > 0 ? quantile(sorted, q) : null);
+  return {
+    conversions: sorted.length,
+    medianDays: at(0.5),
+    p75Days: at(0.75),
+    p90Days: at(0.9),
+  };
+}
+
+/**
+ * Compare the rates of recent entry days with the share of conversions
+ * the lag distribution says should have arrived by the analysis date
+ */
+function getMaturingDays(
+  entries: StageEntry[],
+  lags: number[],
+  analysisDate: string
+): MaturingDay[] {
+  if (lags.length < MIN_LAG_CONVERSIONS) return [];
+
+  const firstDate = addDays(analysisDate, 1 - RECENT_DAYS);
+  const days = new Map<string, { entrants: number; conversions: number }>();
+  entries
+    .filter((e) => e.date >= firstDate)
+    .forEach((e) => {
+      const day = days.get(e.date) || { entrants: 0, conversions: 0 };
+      day.entrants++;
+      if (e.lagDays !== undefined) day.conversions++;
+      days.set(e.date, day);
+    });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { entrants, conversions }]) => {
+      // Entrants joined halfway through their day on average
+      const age = daysBetween(date, analysisDate) + 0.5;
+      const completeness =
+        lags.filter((lag) => lag <= age).length / lags.length;
+      const observedRate = (conversions / entrants) * 100;
+      return {
+        date,
+        entrants,
+        conversions,
+        observedRate,
+        completeness,
+        projectedRate:
+          completeness > 0 ? Math.min(observedRate / completeness, 100) : null,
+        maturing: completeness < MATURE_COMPLETENESS,
+      };
+    });
+}
+
+/**
+ * Measure how long clients take from first session to lead, lead to contact
+ * and contact to first payment, overall and by acquisition channel, and
+ * correct the conversion rates of recent days for conversions that haven't
+ * arrived yet. Lags come from the clients who converted within the loaded
+ * data, so lags longer than the data are under-represented and recent days
+ * are, if anything, still corrected too little.
+ * @param sessions Sessions, joined to leads through their person
+ * @param leads Leads
+ * @param contacts Contacts
+ * @param transactions Transactions; only first payments are used
+ * @param atoms Atoms, mapping atom ids to channels (source group names)
+ * @param analysisDate Last day of data considered (inclusive)
+ * @returns Conversion lag analysis for the daily brief
+ */
+export function analyzeConversionLag(
+  sessions: Session[],
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  atoms: Atom[],
+  analysisDate: string
+): ConversionLagAnalysis {
+  const clients = buildClientEvents(
+    sessions,
+    leads,
+    contacts,
+    transactions,
+    atoms,
+    analysisDate
+  );
+
+  const stages: StageConversionLag[] = (
+    Object.keys(STAGE_NAMES) as ConversionLagStage[]
+  ).map((stage) => {
+    const entries = getStageEntries(clients, stage);
+    const lagsOf = (group: StageEntry[]) =>
+      group
+        .filter((e) => e.lagDays !== undefined)
+        .map((e) => e.lagDays as number);
+    const lags = lagsOf(entries);
+
+    const byChannel = new Map<string, StageEntry[]>();
+    entries.forEach((e) => {
+      if (!byChannel.has(e.channel)) byChannel.set(e.channel, []);
+      byChannel.get(e.channel)!.push(e);
+    });
+
+    return {
+      stage,
+      name: STAGE_NAMES[stage],
+      overall: describeLags(lags),
+      channels: [...byChannel.entries()]
+        .map(([channel, group]) => ({
+          channel,
+          ...describeLags(lagsOf(group)),
+        }))
+        .filter((c) => c.conversions > 0)
+        .sort((a, b) => b.conversions - a.conversions),
+      recentDays: getMaturingDays(entries, lags, analysisDate),
+    };
+  });
+
+  return {
+    stages,
+    insights: generateConversionLagInsights(stages),
+  };
+}
+
+/**
+ * Describe each stage's lag, its slowest channel and the recent days that
+ * are still maturing
+ */
+function generateConversionLagInsights(stages: StageConversionLag[]): string[] {
+  const insights: string[] = [];
+  const days = (value: number | null) => `${(value ?? 0).toFixed(1)} days`;
+
+  stages.forEach(({ name, overall, channels, recentDays }) => {
+    if (overall.conversions === 0) {
+      insights.push(`${name}: no conversions to measure the lag of`);
+      return;
+    }
+
+    insights.push(
+      `${name}: median ${days(overall.medianDays)}, p75 ${days(
+        overall.p75Days
+      )}, p90 ${days(overall.p90Days)} over ${overall.conversions} conversions`
+    );
+
+    const slowest = channels
+      .filter((c) => c.conversions >= MIN_CHANNEL_CONVERSIONS)
+      .sort((a, b) => b.medianDays! - a.medianDays!)[0];
+    if (
+      slowest &&
+      channels.length > 1 &&
+      slowest.medianDays! > overall.medianDays!
+    ) {
+      insights.push(
+        `${
+          slowest.channel
+        } is the slowest channel from ${name.toLowerCase()}: median ${days(
+          slowest.medianDays
+        )} vs ${days(overall.medianDays)} overall`
+      );
+    }
+
+    const maturing = recentDays.filter((d) => d.maturing);
+    if (maturing.length > 0) {
+      const entrants = maturing.reduce((sum, d) => sum + d.entrants, 0);
+      const conversions = maturing.reduce((sum, d) => sum + d.conversions, 0);
+      const projected = maturing.reduce(
+        (sum, d) =>
+          sum +
+          (d.projectedRate !== null
+            ? (d.projectedRate / 100) * d.entrants
+            : d.conversions),
+        0
+      );
+      insights.push(
+        `${name} since ${maturing[0].date} is still maturing: ${(
+          (conversions / entrants) *
+          100
+        ).toFixed(2)}% observed, about ${(
+          (Math.min(projected, entrants) / entrants) *
+          100
+        ).toFixed(2)}% expected once late conversions arrive`
+      );
+    }
+  });
+
+  return insights;
+}
@@ -0,0 +1,338 @@
+import {
+  Atom,
+  Contact,
+  CustomerValueAnalysis,
+  CustomerValueSegment,
+  SourceData,
+  Transaction,
+} from "../types";
+import {
+  daysBetween,
+  extractDatePart,
+  parseTimestamp,
+} from "../utils/date-utils";
+import { median } from "../utils/statistics";
+import { UNATTRIBUTED_CHANNEL } from "./data-analysis";
+import { getPersonId } from "./identity-resolution";
+
+// Days since the first payment at which revenue per customer is reported
+export const DEFAULT_LTV_AGE_CHECKPOINTS = [30, 60, 90, 180];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Payment history of one customer
+interface Customer {
+  channel: string;
+  firstPaymentDate: string;
+  // Payments up to the analysis date, oldest first
+  payments: { time: number; date: string; amount: number }[];
+}
+
+/**
+ * Build the payment history of every person whose first payment is in the
+ * data, with the acquisition channel of the atom on their first payment, or
+ * of their earliest contact when that atom is unknown. Payments without a
+ * person can't be followed over time and are left out.
+ */
+function buildCustomers(
+  transactions: Transaction[],
+  contacts: Contact[],
+  atoms: Atom[],
+  analysisDate: string
+): Customer[] {
+  const channelOf = new Map(
+    atoms.map((atom) => [atom.atomId, atom.sourceGroupName])
+  );
+
+  const earliestContacts = new Map<string, { time: number; atomId: string }>();
+  contacts.forEach((contact) => {
+    const person = getPersonId(contact);
+    if (!person) return;
+    const time = parseTimestamp(contact.datetimeCreatedShifted) ?? Infinity;
+    const earliest = earliestContacts.get(person);
+    if (!earliest || time < earliest.time) {
+      earliestContacts.set(person, { time, atomId: contact.atomid });
+    }
+  });
+
+  const byPerson = new Map<string, Transaction[]>();
+  transactions
+    .filter((tx) => extractDatePart(tx.paymentDatetimeShifted) <= analysisDate)
+    .forEach((tx) => {
+      const person = getPersonId(tx);
+      if (!person) return;
+      if (!byPerson.has(person)) byPerson.set(person, []);
+      byPerson.get(person)!.push(tx);
+    });
+
+  const customers: Customer[] = [];
+  byPerson.forEach((clientTransactions, person) => {
+    const payments = clientTransactions
+      .map((tx) => ({
+        time: parseTimestamp(tx.paymentDatetimeShifted) ?? NaN,
+        date: extractDatePart(tx.paymentDatetimeShifted),
+        amount: tx.paidSumOriginalCurrency,
+        tx,
+      }))
+      .filter((p) => !Number.isNaN(p.time))
+      .sort((a, b) => a.time - b.time);
+
+    // Clients who first paid before the data starts have no known lifetime
+    const firstIndex = payments.findIndex((p) => p.tx.ch_isFirstClientPaid);
+    if (firstIndex < 0) return;
+    const lifetime = payments.slice(firstIndex);
+    const first = lifetime[0];
+
+    const contactAtom = earliestContacts.get(person)?.atomId;
+    const channel =
+      channelOf.get(first.tx.atomid) ||
+      (contactAtom !== undefined ? channelOf.get(contactAtom) : undefined) ||
+      UNATTRIBUTED_CHANNEL;
+
+    customers.push({
+      channel,
+      firstPaymentDate: first.date,
+      payments: lifetime.map(({ time, date, amount }) => ({
+        time,
+        date,
+        amount,
+      })),
+    });
+  });
+
+  return customers;
+}
+
+/**
+ * Summarize the repeat purchases and lifetime value of a group of customers
+ */
+function summarizeCustomers(
+  channel: string,
+  customers: Customer[],
+  spend: number,
+  analysisDate: string,
+  ageCheckpoints: number[],
+  ltvHorizonDays: number | null
+): CustomerValueSegment {
+  const repeatCustomers = customers.filter((c) => c.payments.length > 1);
+  const gaps = repeatCustomers.flatMap((c) =>
+    c.payments.slice(1).map((p, i) => (p.time - c.payments[i].time) / DAY_MS)
+  );
+
+  // Revenue within a number of days of the first payment, over the customers
+  // whose first payment is at least that old
+  const revenuePerCustomerAt = (days: number) => {
+    const matured = customers.filter(
+      (c) => daysBetween(c.firstPaymentDate, analysisDate) >= days
+    );
+    const revenue = matured.reduce(
+      (sum, c) =>
+        sum +
+        c.payments
+          .filter((p) => daysBetween(c.firstPaymentDate, p.date) < days)
+          .reduce((total, p) => total + p.amount, 0),
+      0
+    );
+    return {
+      days,
+      customers: matured.length,
+      revenuePerCustomer: matured.length > 0 ? revenue / matured.length : null,
+    };
+  };
+
+  const revenueToDate = customers.reduce(
+    (sum, c) => sum + c.payments.reduce((total, p) => total + p.amount, 0),
+    0
+  );
+  const ltv =
+    ltvHorizonDays !== null
+      ? revenuePerCustomerAt(ltvHorizonDays).revenuePerCustomer
+      : customers.length > 0
+      ? revenueToDate / customers.length
+      : null;
+  const cac =
+    customers.length > 0 && spend > 0 ? spend / customers.length : null;
+
+  return {
+    channel,
+    customers: customers.length,
+    repeatCustomers: repeatCustomers.length,
+    repeatPurchaseRate:
+      customers.length > 0
+        ? (repeatCustomers.length / customers.length) * 100
+        : 0,
+    averageDaysBetweenPurchases:
+      gaps.length > 0
+        ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length
+        : null,
+    medianDaysBetweenPurchases: gaps.length > 0 ? median(gaps) : null,
+    revenueByAge: ageCheckpoints.map(revenuePerCustomerAt),
+    spend,
+    cac,
+    ltv,
+    ltvToCac: ltv !== null && cac !== null ? ltv / cac : null,
+  };
+}
+
+/**
+ * Analyze repeat purchases and customer lifetime value by acquisition
+ * channel. Customers are clients whose first payment (ch_isFirstClientPaid)
+ * is in the data; clients who first paid earlier have no known lifetime and
+ * are left out. LTV is the revenue per customer at the oldest checkpoint any
+ * customer has reached, or the revenue to date if none has, and CAC divides
+ * the channel's spend by its new customers.
+ * @param transactions Transactions up to the analysis date
+ * @param contacts Contacts, for the channel of customers whose first payment has an unknown atom
+ * @param sourceData Spend of the period customers were acquired in
+ * @param atoms Atoms, mapping atom ids to channels (source group names)
+ * @param analysisDate Last day of data considered (inclusive)
+ * @param ageCheckpoints Days since the first payment to report revenue at
+ * @returns Customer value analysis for the daily brief
+ */
+export function analyzeCustomerValue(
+  transactions: Transaction[],
+  contacts: Contact[],
+  sourceData: SourceData[],
+  atoms: Atom[],
+  analysisDate: string,
+  ageCheckpoints: number[] = DEFAULT_LTV_AGE_CHECKPOINTS
+): CustomerValueAnalysis {
+  const customers = buildCustomers(transactions, contacts, atoms, analysisDate);
+
+  const channelOf = new Map(
+    atoms.map((atom) => [atom.atomId, atom.sourceGroupName])
+  );
+  const channelSpend = new Map<string, number>();
+  let totalSpend = 0;
+  sourceData.forEach((sd) => {
+    const channel = channelOf.get(sd.atomId) || UNATTRIBUTED_CHANNEL;
+    channelSpend.set(
+      channel,
+      (channelSpend.get(channel) || 0) + sd.budgetSpent
+    );
+    totalSpend += sd.budgetSpent;
+  });
+
+  // The oldest checkpoint reached by any customer, so channels share a horizon
+  const oldestAge = customers.reduce(
+    (oldest, c) =>
+      Math.max(oldest, daysBetween(c.firstPaymentDate, analysisDate)),
+    -1
+  );
+  const reached = ageCheckpoints.filter((days) => days <= oldestAge);
+  const ltvHorizonDays = reached.length > 0 ? Math.max(...reached) : null;
+
+  const byChannel = new Map<string, Customer[]>();
+  customers.forEach((c) => {
+    if (!byChannel.has(c.channel)) byChannel.set(c.channel, []);
+    byChannel.get(c.channel)!.push(c);
+  });
+  // Channels with spend but no customers still have a CAC story to tell
+  channelSpend.forEach((_, channel) => {
+    if (!byChannel.has(channel)) byChannel.set(channel, []);
+  });
+
+  const summarize = (channel: string, group: Customer[], spend: number) =>
+    summarizeCustomers(
+      channel,
+      group,
+      spend,
+      analysisDate,
+      ageCheckpoints,
+      ltvHorizonDays
+    );
+
+  const overall = summarize("All channels", customers, totalSpend);
+  const channels = [...byChannel.entries()]
+    .map(([channel, group]) =>
+      summarize(channel, group, channelSpend.get(channel) || 0)
+    )
+    .sort((a, b) => b.customers - a.customers);
+
+  return {
+    ageCheckpoints,
+    ltvHorizonDays,
+    overall,
+    channels,
+    insights: generateCustomerValueInsights(
+      overall,
+      channels,
+      ageCheckpoints,
+      ltvHorizonDays
+    ),
+  };
+}
+
+/**
+ * Describe repeat purchases, LTV and the channels with the best and worst
+ * LTV:CAC ratio
+ */
+function generateCustomerValueInsights(
+  overall: CustomerValueSegment,
+  channels: CustomerValueSegment[],
+  ageCheckpoints: number[],
+  ltvHorizonDays: number | null
+): string[] {
+  if (overall.customers === 0) {
+    return ["No customers made their first payment in the period"];
+  }
+
+  const ltvLabel =
+    ltvHorizonDays !== null
+      ? `${ltvHorizonDays}-day revenue per customer`
+      : "revenue per customer to date";
+  const insights: string[] = [
+    `${overall.repeatCustomers} of ${
+      overall.customers
+    } new customers (${overall.repeatPurchaseRate.toFixed(
+      2
+    )}%) paid more than once${
+      overall.medianDaysBetweenPurchases !== null
+        ? `, with a median of ${overall.medianDaysBetweenPurchases.toFixed(
+            1
+          )} days between purchases`
+        : ""
+    }`,
+  ];
+
+  if (overall.ltv !== null) {
+    insights.push(
+      `The ${ltvLabel} is ${overall.ltv.toFixed(2)}${
+        overall.ltvToCac !== null
+          ? ` against a CAC of ${overall.cac!.toFixed(
+              2
+            )} (LTV:CAC ${overall.ltvToCac.toFixed(2)})`
+          : ""
+      }`
+    );
+  }
+  if (ltvHorizonDays === null && ageCheckpoints.length > 0) {
+    insights.push(
+      `No customer has reached ${ageCheckpoints[0]} days since their first payment yet, so LTV is the revenue to date and will grow`
+    );
+  }
+
+  const ranked = channels
+    .filter((c) => c.ltvToCac !== null)
+    .sort((a, b) => b.ltvToCac! - a.ltvToCac!);
+  if (ranked.length > 1) {
+    const best = ranked[0];
+    const worst = ranked[ranked.length - 1];
+    insights.push(
+      `${best.channel} has the best LTV:CAC (${best.ltvToCac!.toFixed(
+        2
+      )}) and ${worst.channel} the worst (${worst.ltvToCac!.toFixed(2)})`
+    );
+  }
+
+  const unpaying = channels.filter((c) => c.customers === 0 && c.spend > 0);
+  if (unpaying.length > 0) {
+    insights.push(
+      `${unpaying
+        .map((c) => c.channel)
+        .join(", ")} had spend but acquired no paying customers`
+    );
+  }
+
+  return insights;
+}
@@ -2,13 +2,21 @@ import {
   Session,
   Lead,
   Contact,
+  Contact2Lead,
   Transaction,
   SourceData,
   Atom,
   MetricsAnalysis,
   ConversionAnalysis,
+  ConversionStageCounts,
+  CurrencyConversionReport,
+  DedupReport,
+  LeadContactLinkSource,
   ChannelDistributionAnalysis,
+  LoadReport,
 } from "../types";
+import { extractDatePart, parseTimestamp } from "../utils/date-utils";
+import { getPeople, getPersonId } from "./identity-resolution";
 
 // Calculate ROAS (Return on Ad Spend)
 export function calculateROAS(
@@ -35,8 +43,8 @@ export function calculateCAC(
   transactions: Transaction[],
   sourceData: SourceData[]
 ): number {
-  const uniqueCustomers = new Set(
-    transactions.filter((tx) => tx.ch_isFirstClientPaid).map((tx) => tx.mcId)
+  const uniqueCustomers = getPeople(
+    transactions.filter((tx) => tx.ch_isFirstClientPaid)
   ).size;
 
   const totalAdSpend = sourceData.reduce(
@@ -50,114 +58,279 @@ export function calculateCAC(
   return totalAdSpend / uniqueCustomers;
 }
 
-// Calculate conversion rates at different stages
-export function calculateConversionRates(
+// Daily totals used as resampling units for ratio metrics
+export interface DailyUnit {
+  revenue: number;
+  spend: number;
+  customers: number;
+}
+
+/**
+ * Split revenue, spend and new customers into daily units, so ratio metrics
+ * can be bootstrapped by resampling days
+ * @param transactions Transactions of the period
+ * @param sourceData Spend of the period
+ * @returns One unit per day with transactions or spend
+ */
+export function buildDailyUnits(
+  transactions: Transaction[],
+  sourceData: SourceData[]
+): DailyUnit[] {
+  const days = new Map<
+    string,
+    { revenue: number; spend: number; customers: Set<string> }
+  >();
+  const dayFor = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { revenue: 0, spend: 0, customers: new Set() };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  transactions.forEach((tx) => {
+    const day = dayFor(extractDatePart(tx.paymentDatetimeShifted));
+    day.revenue += tx.paidSumOriginalCurrency;
+    const person = getPersonId(tx);
+    if (tx.ch_isFirstClientPaid && person) day.customers.add(person);
+  });
+
+  sourceData.forEach((sd) => {
+    dayFor(extractDatePart(sd.date)).spend += sd.budgetSpent;
+  });
+
+  return [...days.values()].map((day) => ({
+    revenue: day.revenue,
+    spend: day.spend,
+    customers: day.customers.size,
+  }));
+}
+
+const sumOf = (units: DailyUnit[], key: keyof DailyUnit) =>
+  units.reduce((sum, unit) => sum + unit[key], 0);
+
+// ROAS of a set of daily units, NaN without spend
+export const roasOfUnits = (units: DailyUnit[]): number =>
+  sumOf(units, "spend") > 0
+    ? sumOf(units, "revenue") / sumOf(units, "spend")
+    : NaN;
+
+// CAC of a set of daily units, NaN without new customers
+export const cacOfUnits = (units: DailyUnit[]): number =>
+  sumOf(units, "customers") > 0
+    ? sumOf(units, "spend") / sumOf(units, "customers")
+    : NaN;
+
+// Entities at each stage of the funnel, and the conversions between stages
+export interface FunnelCounts {
+  visitors: number;
+  leads: number;
+  contacts: number;
+  customers: number;
+  stages: ({ name: string } & ConversionStageCounts)[];
+  unlinkedContacts: number;
+  linkSource: LeadContactLinkSource;
+}
+
+/**
+ * Count the funnel from entity links rather than from unique users: a lead
+ * converted if it is linked to a contact, and a contact converted if its
+ * person paid. Contacts not linked to any lead are counted separately so they
+ * do not inflate "Lead to Contact". When no Contact2Lead links are loaded,
+ * leads and contacts are matched by person instead. Visitors and customers
+ * are people, resolved across mcIds and Google client ids, and only visitors
+ * who became leads or customers count as converted from a visit. A stage
+ * with nothing entering it (such as the visitor stages without sessions)
+ * has a total of zero.
+ * @param sessions Sessions of the period
+ * @param leads Leads of the period
+ * @param contacts Contacts of the period
+ * @param transactions Transactions of the period
+ * @param contact2Leads Lead to contact link table
+ * @returns Stage totals and conversions
+ */
+export function countFunnelStages(
   sessions: Session[],
   leads: Lead[],
   contacts: Contact[],
-  transactions: Transaction[]
-): ConversionAnalysis["stages"] {
-  // Count unique users at each stage (using mcId where available, or userPseudoId for sessions)
-  const uniqueVisitors = new Set(sessions.map((s) => s.mcid || s.userPseudoId))
-    .size;
+  transactions: Transaction[],
+  contact2Leads: Contact2Lead[]
+): FunnelCounts {
+  const linkSource: LeadContactLinkSource =
+    contact2Leads.length > 0 ? "contact2Leads" : "person";
+
+  let isLeadLinked: (lead: Lead) => boolean;
+  let isContactLinked: (contact: Contact) => boolean;
+  if (linkSource === "contact2Leads") {
+    const linkedLeadIds = new Set(contact2Leads.map((link) => link.leadId));
+    const linkedContactIds = new Set(
+      contact2Leads.map((link) => link.contactId)
+    );
+    isLeadLinked = (lead) => linkedLeadIds.has(lead.id);
+    isContactLinked = (contact) => linkedContactIds.has(contact.id);
+  } else {
+    const contactPeople = getPeople(contacts);
+    const leadPeople = getPeople(leads);
+    isLeadLinked = (lead) => contactPeople.has(getPersonId(lead));
+    isContactLinked = (contact) => leadPeople.has(getPersonId(contact));
+  }
 
-  const uniqueLeads = new Set(leads.map((l) => l.mcId)).size;
+  const uniqueLeads = [...new Map(leads.map((l) => [l.id, l])).values()];
+  const uniqueContacts = [...new Map(contacts.map((c) => [c.id, c])).values()];
+  const payingPeople = getPeople(transactions);
 
-  const uniqueContacts = new Set(contacts.map((c) => c.mcId)).size;
+  // Unique people; records without a person aren't counted as one
+  const visitorPeople = getPeople(sessions);
+  const customerPeople = getPeople(
+    transactions.filter((tx) => tx.ch_isFirstClientPaid)
+  );
+  const visitorsWho = (people: Set<string>) =>
+    [...people].filter((person) => visitorPeople.has(person)).length;
+  const visitors = visitorPeople.size;
 
-  const uniqueCustomers = new Set(
-    transactions.filter((tx) => tx.ch_isFirstClientPaid).map((tx) => tx.mcId)
-  ).size;
+  const linkedContacts = uniqueContacts.filter(isContactLinked);
+
+  return {
+    visitors,
+    leads: uniqueLeads.length,
+    contacts: uniqueContacts.length,
+    customers: customerPeople.size,
+    stages: [
+      {
+        name: "Visitor to Lead",
+        converted: visitorsWho(getPeople(leads)),
+        total: visitors,
+      },
+      {
+        name: "Lead to Contact",
+        converted: uniqueLeads.filter(isLeadLinked).length,
+        total: uniqueLeads.length,
+      },
+      {
+        name: "Contact to Customer",
+        converted: uniqueContacts.filter((c) =>
+          payingPeople.has(getPersonId(c))
+        ).length,
+        total: uniqueContacts.length,
+      },
+      {
+        name: "Overall (Visitor to Customer)",
+        converted: visitorsWho(customerPeople),
+        total: visitors,
+      },
+    ],
+    unlinkedContacts: uniqueContacts.length - linkedContacts.length,
+    linkSource,
+  };
+}
+
+// Calculate conversion rates at different stages
+export function calculateConversionRates(
+  sessions: Session[],
+  leads: Lead[],
+  contacts: Contact[],
+  transactions: Transaction[],
+  contact2Leads: Contact2Lead[]
+): { stages: ConversionAnalysis["stages"] } & Pick<
+  FunnelCounts,
+  "unlinkedContacts" | "linkSource"
+> {
+  const counts = countFunnelStages(
+    sessions,
+    leads,
+    contacts,
+    transactions,
+    contact2Leads
+  );
 
   // Calculate conversion rates (as percentages)
-  const visitorToLeadRate =
-    uniqueVisitors > 0 ? (uniqueLeads / uniqueVisitors) * 100 : 0;
-  const leadToContactRate =
-    uniqueLeads > 0 ? (uniqueContacts / uniqueLeads) * 100 : 0;
-  const contactToCustomerRate =
-    uniqueContacts > 0 ? (uniqueCustomers / uniqueContacts) * 100 : 0;
-  const overallConversionRate =
-    uniqueVisitors > 0 ? (uniqueCustomers / uniqueVisitors) * 100 : 0;
-
-  return [
-    {
-      name: "Visitor to Lead",
-      current: visitorToLeadRate,
-      previous: 0, // Will be populated later with historical data
-      percentageChange: 0, // Will be calculated later
-      isSignificant: false, // Will be determined later
-    },
-    {
-      name: "Lead to Contact",
-      current: leadToContactRate,
-      previous: 0,
-      percentageChange: 0,
-      isSignificant: false,
-    },
-    {
-      name: "Contact to Customer",
-      current: contactToCustomerRate,
-      previous: 0,
-      percentageChange: 0,
-      isSignificant: false,
-    },
-    {
-      name: "Overall (Visitor to Customer)",
-      current: overallConversionRate,
-      previous: 0,
-      percentageChange: 0,
-      isSignificant: false,
-    },
-  ];
+  const stages = counts.stages.map(({ name, converted, total }) => ({
+    name,
+    available: total > 0,
+    current: total > 0 ? (converted / total) * 100 : 0,
+    previous: 0, // Will be populated later with historical data
+    currentCounts: { converted, total },
+    previousCounts: { converted: 0, total: 0 }, // Populated with the previous rate
+    percentageChange: 0, // Will be calculated later
+    isSignificant: false, // Will be determined later
+    tested: false,
+    pValue: 1,
+    confidenceInterval: { lower: NaN, upper: NaN },
+    relativeConfidenceInterval: { lower: NaN, upper: NaN },
+  }));
+
+  return {
+    stages,
+    unlinkedContacts: counts.unlinkedContacts,
+    linkSource: counts.linkSource,
+  };
 }
 
-// Analyze channel distribution
+// Channel of sessions that could not be joined to a lead or contact
+export const UNATTRIBUTED_CHANNEL = "Unattributed";
+
+/**
+ * Distribute sessions over channels through their people: a session gets the
+ * channel (source group) of the atom of its person's earliest lead or
+ * contact, with people resolved across mcIds and Google client ids. Sessions without a match are
+ * counted in an explicit "Unattributed" bucket, so shares sum to 100%.
+ * @param sessions Sessions of the period
+ * @param leads Leads, used to map users to atoms
+ * @param contacts Contacts, used to map users to atoms
+ * @param atoms Atoms, mapping atom ids to channels
+ * @returns Sessions per channel and the number of attributed sessions
+ */
 export function analyzeChannelDistribution(
   sessions: Session[],
+  leads: Lead[],
+  contacts: Contact[],
   atoms: Atom[]
-): ChannelDistributionAnalysis["channels"] {
-  // Create a mapping from atomId to channel info
-  const atomIdToChannel = new Map<
-    string,
-    {
-      sourceName: string;
-      sourceGroupName: string;
-      isPaidName: string;
-    }
-  >();
+): {
+  channels: ChannelDistributionAnalysis["channels"];
+  attributed: number;
+  total: number;
+} {
+  const atomIdToChannel = new Map(
+    atoms.map((atom) => [atom.atomId, atom.sourceGroupName])
+  );
 
-  atoms.forEach((atom) => {
-    atomIdToChannel.set(atom.atomId, {
-      sourceName: atom.sourceName,
-      sourceGroupName: atom.sourceGroupName,
-      isPaidName: atom.isPaidName,
+  // Atom of each person's earliest lead or contact; unparseable times go last
+  const timeOf = (entity: Lead | Contact) =>
+    parseTimestamp(entity.datetimeCreatedShifted) ?? Infinity;
+  const atomByPerson = new Map<string, string>();
+  [...leads, ...contacts]
+    .map((entity) => ({ entity, time: timeOf(entity) }))
+    .sort((a, b) => (a.time === b.time ? 0 : a.time < b.time ? -1 : 1))
+    .forEach(({ entity }) => {
+      const person = getPersonId(entity);
+      if (person && !atomByPerson.has(person)) {
+        atomByPerson.set(person, entity.atomid);
+      }
     });
-  });
 
   // Count sessions by channel
   const channelCounts = new Map<string, number>();
-  const totalSessions = sessions.length;
+  let attributed = 0;
 
-  // For each session, find its source channel and increment the count
-  // Note: This is a simplified approach. In a real application, you would need
-  // to join sessions with source data based on user journey attribution
+  sessions.forEach((session) => {
+    const atomId = atomByPerson.get(getPersonId(session));
+    const channel = atomId ? atomIdToChannel.get(atomId) : undefined;
 
-  // For this example, we'll just count by channel groups
-  atoms.forEach((atom) => {
-    const channel = atom.sourceGroupName;
-    const currentCount = channelCounts.get(channel) || 0;
-    channelCounts.set(channel, currentCount + 1);
+    if (channel) attributed++;
+    const name = channel || UNATTRIBUTED_CHANNEL;
+    channelCounts.set(name, (channelCounts.get(name) || 0) + 1);
   });
 
   // Convert to the required format
-  const result: ChannelDistributionAnalysis["channels"] = [];
+  const channels: ChannelDistributionAnalysis["channels"] = [];
 
   for (const [channelName, count] of channelCounts.entries()) {
-    result.push({
+    channels.push({
       name: channelName,
       current: {
         sessions: count,
-        percentage: (count / Math.max(totalSessions, 1)) * 100,
+        percentage: (count / sessions.length) * 100,
       },
       previous: {
         sessions: 0, // Will be populated with historical data
@@ -167,186 +340,117 @@ export function analyzeChannelDistribution(
     });
   }
 
-  return result;
+  return {
+    channels: channels.sort((a, b) => b.current.sessions - a.current.sessions),
+    attributed,
+    total: sessions.length,
+  };
 }
 
-// Check data validity (simple version)
-export function checkDataValidity(
-  sessions: Session[],
-  leads: Lead[],
-  contacts: Contact[],
-  transactions: Transaction[],
-  sourceData: SourceData[],
-  atoms: Atom[]
-) {
+// Turn schema validation load reports into data quality issues
+export function checkLoadReports(reports: LoadReport[]) {
   const issues: string[] = [];
   const suggestions: string[] = [];
 
-  // Check for empty datasets
-  if (sessions.length === 0) issues.push("Sessions dataset is empty");
-  if (leads.length === 0) issues.push("Leads dataset is empty");
-  if (contacts.length === 0) issues.push("Contacts dataset is empty");
-  if (transactions.length === 0) issues.push("Transactions dataset is empty");
-  if (sourceData.length === 0) issues.push("Source data dataset is empty");
-  if (atoms.length === 0) issues.push("Atoms dataset is empty");
-
-  // Check for missing mcIds across datasets
-  const sessionMcIds = new Set(
-    sessions.filter((s) => s.mcid).map((s) => s.mcid)
-  );
-  const leadMcIds = new Set(leads.map((l) => l.mcId));
-  const contactMcIds = new Set(contacts.map((c) => c.mcId));
-  const transactionMcIds = new Set(transactions.map((t) => t.mcId));
-
-  // Check for leads without sessions
-  const leadsWithoutSessions = [...leadMcIds].filter(
-    (id) => !sessionMcIds.has(id)
-  );
-  if (leadsWithoutSessions.length > 0) {
-    const percentage = (leadsWithoutSessions.length / leadMcIds.size) * 100;
-    issues.push(
-      `${percentage.toFixed(2)}% of leads have no corresponding session data`
-    );
-    suggestions.push(
-      "Improve session tracking to ensure all leads have associated session data"
-    );
-  }
-
-  // Check for transactions without contacts
-  const transactionsWithoutContacts = [...transactionMcIds].filter(
-    (id) => !contactMcIds.has(id)
-  );
-  if (transactionsWithoutContacts.length > 0) {
-    const percentage =
-      (transactionsWithoutContacts.length / transactionMcIds.size) * 100;
-    issues.push(
-      `${percentage.toFixed(
-        2
-      )}% of transactions have no corresponding contact data`
-    );
-    suggestions.push(
-      "Improve contact tracking to ensure all transactions have associated contact data"
-    );
-  }
+  reports.forEach((report) => {
+    const requiredMissing = report.missingColumns.filter((c) => c.required);
+    if (requiredMissing.length > 0) {
+      issues.push(
+        `${report.dataset} is missing required columns: ${requiredMissing
+          .map((c) => c.column)
+          .join(", ")}`
+      );
+      suggestions.push(
+        `Check the ${report.dataset} export headers or add aliases to its schema`
+      );
+    }
 
-  // Simple data volume check (significant drop in data volume compared to usual)
-  // In a real application, you would compare with historical averages
-  const expectedSessionsPerDay = 1000; // Example threshold
-  const sessionsPerDay = sessions.length; // Simplification - assuming data is for one day
+    if (report.rejectedRows > 0) {
+      const percentage = (report.rejectedRows / report.totalRows) * 100;
+      issues.push(
+        `${report.rejectedRows} of ${report.totalRows} ${
+          report.dataset
+        } rows (${percentage.toFixed(2)}%) were rejected during loading`
+      );
+    }
 
-  if (sessionsPerDay < expectedSessionsPerDay * 0.7) {
-    issues.push(
-      `Session volume (${sessionsPerDay}) is significantly lower than expected (${expectedSessionsPerDay})`
-    );
-    suggestions.push(
-      "Check if there are tracking issues or a genuine decrease in traffic"
-    );
-  }
+    if (report.unparseableValueCount > 0) {
+      const fields = [
+        ...new Set(report.unparseableValues.map((v) => v.column)),
+      ];
+      issues.push(
+        `${report.unparseableValueCount} unparseable values in ${
+          report.dataset
+        } (columns: ${fields.join(", ")})`
+      );
+    }
+  });
 
-  return {
-    isValid: issues.length === 0,
-    issues,
-    suggestions,
-  };
+  return { issues, suggestions };
 }
 
-// Calculate significance of change
-export function isChangeSigificant(
-  current: number,
-  previous: number,
-  threshold = 10
-): boolean {
-  if (previous === 0) return current > 0;
-
-  const percentageChange = Math.abs(((current - previous) / previous) * 100);
-  return percentageChange >= threshold;
-}
+// Turn duplicate records removed during loading into data quality issues
+export function checkDedupReports(reports: DedupReport[]) {
+  const issues: string[] = [];
+  const suggestions: string[] = [];
 
-// Generate insights about why metrics might have changed (simplified)
-export function generatePossibleReasons(
-  metricName: string,
-  current: number,
-  previous: number,
-  sessions: Session[],
-  sourceData: SourceData[],
-  atoms: Atom[]
-): string[] {
-  const reasons: string[] = [];
-  const percentChange =
-    previous > 0 ? ((current - previous) / previous) * 100 : 0;
-  const increased = current > previous;
-
-  // Generic reasons based on metric type
-  if (metricName === "ROAS") {
-    if (increased) {
-      reasons.push(
-        "Improved ad targeting may have led to higher conversion rates"
-      );
-      reasons.push(
-        "Better performing products or offers could be driving higher order values"
+  reports
+    .filter((report) => report.duplicateRows > 0)
+    .forEach((report) => {
+      const amounts = [
+        report.revenueAffected !== null
+          ? `${report.revenueAffected.toFixed(2)} of revenue`
+          : undefined,
+        report.spendAffected !== null
+          ? `${report.spendAffected.toFixed(2)} of spend`
+          : undefined,
+      ].filter((amount) => amount !== undefined);
+      issues.push(
+        `${report.duplicateRows} duplicate ${report.dataset} rows in ${
+          report.source
+        } (${report.duplicateKeys} repeated ${report.keys.join(
+          "+"
+        )} keys, kept the ${report.keep})${
+          amounts.length > 0
+            ? ` were removed, ${amounts.join(" and ")}`
+            : " were removed"
+        }`
       );
-      reasons.push(
-        "Seasonal effects might be positively impacting purchasing behavior"
+      suggestions.push(
+        `Check why the ${
+          report.dataset
+        } export repeats rows, e.g. ${report.keys.join("+")} ${
+          report.sampleKeys[0]
+        }`
       );
-    } else {
-      reasons.push(
-        "Ad costs may have increased without a corresponding increase in revenue"
-      );
-      reasons.push(
-        "Ad targeting may be less effective, reaching less qualified prospects"
-      );
-      reasons.push(
-        "Competitive landscape may have changed, affecting conversion rates"
-      );
-    }
-  } else if (metricName === "CAC") {
-    if (increased) {
-      reasons.push(
-        "Rising ad costs in the market may be increasing acquisition costs"
-      );
-      reasons.push(
-        "Decreased ad effectiveness could be requiring more spend per acquisition"
-      );
-      reasons.push(
-        "Market saturation might be making it harder to find new customers"
-      );
-    } else {
-      reasons.push(
-        "Improved targeting strategies may be more efficiently acquiring customers"
-      );
-      reasons.push(
-        "Optimization of ad spend across channels could be reducing waste"
-      );
-      reasons.push(
-        "Increased brand awareness might be lowering the cost to convert customers"
-      );
-    }
-  }
+    });
 
-  // Add a data-backed reason if possible
-  // Check if there's a significant change in traffic from paid vs. non-paid sources
-  const paidAtomIds = new Set(
-    atoms
-      .filter((a) => a.isPaidName.toLowerCase() === "paid")
-      .map((a) => a.atomId)
-  );
+  return { issues, suggestions };
+}
 
-  const paidSourceData = sourceData.filter((sd) => paidAtomIds.has(sd.atomId));
-  const totalPaidSpend = paidSourceData.reduce(
-    (sum, sd) => sum + sd.budgetSpent,
-    0
-  );
-  const totalPaidClicks = paidSourceData.reduce(
-    (sum, sd) => sum + sd.clicks,
-    0
-  );
+// Turn exchange rates missing during currency conversion into data quality issues
+export function checkCurrencyConversion(report?: CurrencyConversionReport) {
+  const issues: string[] = [];
+  const suggestions: string[] = [];
 
-  if (totalPaidSpend > 0) {
-    const cpc = totalPaidClicks > 0 ? totalPaidSpend / totalPaidClicks : 0;
-    reasons.push(
-      `Average cost per click across paid channels is ${cpc.toFixed(2)}`
+  report?.missingRates.forEach((missing) => {
+    const total = missing.dataset === "transactions" ? "revenue" : "spend";
+    issues.push(
+      `No ${missing.currency} to ${
+        report.reportingCurrency
+      } exchange rate for ${missing.rows} ${missing.dataset} rows between ${
+        missing.firstDate
+      } and ${missing.lastDate}: ${missing.amount.toFixed(2)} ${
+        missing.currency
+      } was left out of ${total}, so ${total} metrics on those days are understated`
+    );
+  });
+
+  if (report && report.missingRates.length > 0) {
+    suggestions.push(
+      `Add the missing dated rates into ${report.reportingCurrency} to the exchange-rate file`
     );
   }
 
-  return reasons;
+  return { issues, suggestions };
 }
@@ -0,0 +1,227 @@
+import {
+  DataFreshnessReport,
+  DataSet,
+  DataSetName,
+  FreshnessEntry,
+  FreshnessStatus,
+} from "../types";
+import { addDays, daysBetween, extractDatePart } from "../utils/date-utils";
+import { DATASET_DATE_FIELDS } from "../utils/entity-schemas";
+import { median } from "../utils/statistics";
+import { getAtomDimensionValue } from "./drill-down";
+
+// Days before the analysis date typical daily volumes are learned from
+const FRESHNESS_LOOKBACK_DAYS = 28;
+
+// Share of a typical day's rows below which the analysis date is partial
+const PARTIAL_DAY_SHARE = 0.5;
+
+// Daily rows and spend of a dataset or source
+interface DailyVolume {
+  rows: Map<string, number>;
+  spend: Map<string, number>;
+}
+
+/**
+ * Summarize the freshness of one dataset or source on the analysis date
+ */
+function describeFreshness(
+  kind: FreshnessEntry["kind"],
+  name: string,
+  volume: DailyVolume,
+  analysisDate: string,
+  critical: boolean,
+  withSpend: boolean
+): FreshnessEntry {
+  const dates = [...volume.rows.keys()].filter((date) => date <= analysisDate);
+  const latestDate = dates.reduce<string | null>(
+    (latest, date) => (latest === null || date > latest ? date : latest),
+    null
+  );
+
+  // Typical volumes of the days the dataset or source had rows on
+  const historyStart = addDays(analysisDate, -FRESHNESS_LOOKBACK_DAYS);
+  const history = dates.filter(
+    (date) => date >= historyStart && date < analysisDate
+  );
+  const typicalRows =
+    history.length > 0
+      ? median(history.map((date) => volume.rows.get(date)!))
+      : null;
+  const typicalSpend =
+    withSpend && history.length > 0
+      ? median(history.map((date) => volume.spend.get(date) || 0))
+      : null;
+
+  const rows = volume.rows.get(analysisDate) || 0;
+  const spend = withSpend ? volume.spend.get(analysisDate) || 0 : null;
+  const completeness =
+    typicalRows !== null && typicalRows > 0 ? (rows / typicalRows) * 100 : null;
+
+  let status: FreshnessStatus = "fresh";
+  if (rows === 0) {
+    status = "missing";
+  } else if (completeness !== null && completeness < PARTIAL_DAY_SHARE * 100) {
+    status = "partial";
+  } else if (spend === 0 && typicalSpend !== null && typicalSpend > 0) {
+    status = "zero_spend";
+  }
+
+  return {
+    kind,
+    name,
+    latestDate,
+    daysBehind:
+      latestDate !== null ? daysBetween(latestDate, analysisDate) : null,
+    rows,
+    typicalRows,
+    completeness,
+    spend,
+    typicalSpend,
+    status,
+    critical,
+  };
+}
+
+/**
+ * Work out whether the data of the analysis date has arrived, for every
+ * dated dataset and for every source (atom source name) in the spend data.
+ * A dataset or source is missing without rows on the analysis date, partial
+ * with less than half of its typical daily rows, and a source reads zero
+ * spend when its rows arrived without the spend it usually has. Typical
+ * volumes are the medians of the days with rows in the four weeks before.
+ * @param data Loaded data, including the history before the analysis date
+ * @param analysisDate Date whose data should have arrived
+ * @param criticalSources Names of the datasets and sources that stop the
+ * analysis when they aren't fresh, matched case-insensitively
+ * @returns Freshness table and the critical entries that aren't fresh
+ */
+export function checkDataFreshness(
+  data: DataSet,
+  analysisDate: string,
+  criticalSources: string[]
+): DataFreshnessReport {
+  const critical = new Set(criticalSources.map((name) => name.toLowerCase()));
+  const isCritical = (name: string) => critical.has(name.toLowerCase());
+
+  const datasets = (Object.keys(DATASET_DATE_FIELDS) as DataSetName[]).map(
+    (dataset) => {
+      const field = DATASET_DATE_FIELDS[dataset]!;
+      const volume: DailyVolume = { rows: new Map(), spend: new Map() };
+      (data[dataset] as object[]).forEach((record) => {
+        const value = (record as Record<string, unknown>)[field];
+        if (typeof value !== "string" || value.trim() === "") return;
+        const date = extractDatePart(value);
+        volume.rows.set(date, (volume.rows.get(date) || 0) + 1);
+      });
+      return describeFreshness(
+        "dataset",
+        dataset,
+        volume,
+        analysisDate,
+        isCritical(dataset),
+        false
+      );
+    }
+  );
+
+  const atomById = new Map(data.atoms.map((atom) => [atom.atomId, atom]));
+  const sourceVolumes = new Map<string, DailyVolume>();
+  data.sourceData.forEach((sd) => {
+    const source = getAtomDimensionValue(atomById.get(sd.atomId), "sourceName");
+    const date = extractDatePart(sd.date);
+    let volume = sourceVolumes.get(source);
+    if (!volume) {
+      volume = { rows: new Map(), spend: new Map() };
+      sourceVolumes.set(source, volume);
+    }
+    volume.rows.set(date, (volume.rows.get(date) || 0) + 1);
+    volume.spend.set(date, (volume.spend.get(date) || 0) + sd.budgetSpent);
+  });
+  const sources = [...sourceVolumes.entries()]
+    .map(([source, volume]) =>
+      describeFreshness(
+        "source",
+        source,
+        volume,
+        analysisDate,
+        isCritical(source),
+        true
+      )
+    )
+    .sort((a, b) => (b.typicalSpend || 0) - (a.typicalSpend || 0));
+
+  const entries = [...datasets, ...sources];
+  const staleCritical = entries
+    .filter((e) => e.critical && e.status !== "fresh")
+    .map((e) => e.name);
+
+  // Critical names matching nothing can't be checked, so they count as stale
+  const known = new Set(entries.map((e) => e.name.toLowerCase()));
+  criticalSources
+    .filter((name) => !known.has(name.toLowerCase()))
+    .forEach((name) => staleCritical.push(name));
+
+  return {
+    analysisDate,
+    entries,
+    staleCritical,
+  };
+}
+
+/**
+ * Turn the freshness table into data quality issues and suggestions
+ * @param report Freshness table
+ * @returns One issue per dataset or source that isn't fresh
+ */
+export function checkFreshnessReport(report: DataFreshnessReport) {
+  const issues: string[] = [];
+  const suggestions: string[] = [];
+  const { analysisDate } = report;
+
+  report.entries.forEach((e) => {
+    const label = `${e.kind === "dataset" ? "Dataset" : "Source"} ${e.name}${
+      e.critical ? " (critical)" : ""
+    }`;
+    switch (e.status) {
+      case "missing":
+        issues.push(
+          e.latestDate !== null
+            ? `${label} has no data for ${analysisDate}; its latest data is from ${e.latestDate}, ${e.daysBehind} days behind`
+            : `${label} has no data on or before ${analysisDate}`
+        );
+        break;
+      case "partial":
+        issues.push(
+          `${label} looks partial on ${analysisDate}: ${e.rows} rows, ${(
+            e.completeness ?? 0
+          ).toFixed(0)}% of a typical day (${(e.typicalRows ?? 0).toFixed(0)})`
+        );
+        break;
+      case "zero_spend":
+        issues.push(
+          `${label} reads zero spend on ${analysisDate} against a typical ${(
+            e.typicalSpend ?? 0
+          ).toFixed(2)} per day`
+        );
+        break;
+    }
+  });
+
+  const known = new Set(report.entries.map((e) => e.name));
+  report.staleCritical
+    .filter((name) => !known.has(name))
+    .forEach((name) => {
+      issues.push(
+        `Critical source ${name} matches no dataset or source in the data`
+      );
+    });
+
+  if (report.entries.some((e) => e.status !== "fresh")) {
+    suggestions.push(
+      "Re-run the analysis once the late data has arrived, or check the exports and ad platform connections of the flagged sources"
+    );
+  }
+
+  return { issues, suggestions };
+}
@@ -0,0 +1,466 @@
+import fs from "fs";
+import {
+  DataQualityRule,
+  DataQualityRuleOutcome,
+  DataQualityRuleType,
+  DataQualitySeverity,
+  DataSet,
+  DataSetName,
+} from "../types";
+import { addDays, daysBetween, extractDatePart } from "../utils/date-utils";
+import { DATASET_DATE_FIELDS, ENTITY_SCHEMAS } from "../utils/entity-schemas";
+import { median, scaledMad } from "../utils/statistics";
+
+// Days before the analysis date volume bounds are learned from
+const DEFAULT_VOLUME_LOOKBACK_DAYS = 28;
+
+// Robust deviations from the median daily volume that are still normal
+const DEFAULT_VOLUME_DEVIATIONS = 3;
+
+// Fewest days of history needed to learn volume bounds
+const MIN_VOLUME_HISTORY_DAYS = 7;
+
+// Smallest spread assumed around the median daily volume, relative to it,
+// so nearly constant volumes don't flag every small change
+const MIN_RELATIVE_VOLUME_SPREAD = 0.1;
+
+const RULE_TYPES: DataQualityRuleType[] = [
+  "null_rate",
+  "allowed_values",
+  "volume",
+  "freshness",
+  "join_coverage",
+];
+
+const SEVERITIES: DataQualitySeverity[] = ["warn", "error"];
+
+// Datasets with a date field, checked for freshness and daily volume by default
+const DATED_DATASETS = (
+  Object.keys(DATASET_DATE_FIELDS) as DataSetName[]
+).filter((dataset) => DATASET_DATE_FIELDS[dataset] !== undefined);
+
+// Rules used when no rules file is configured
+export const DEFAULT_DATA_QUALITY_RULES: DataQualityRule[] = [
+  ...DATED_DATASETS.map(
+    (dataset): DataQualityRule => ({
+      id: `${dataset}_freshness`,
+      type: "freshness",
+      dataset,
+      severity: "warn",
+      maxAgeDays: 1,
+    })
+  ),
+  ...DATED_DATASETS.map(
+    (dataset): DataQualityRule => ({
+      id: `${dataset}_volume`,
+      type: "volume",
+      dataset,
+      severity: "warn",
+    })
+  ),
+  {
+    id: "atoms_volume",
+    type: "volume",
+    dataset: "atoms",
+    severity: "warn",
+    min: 1,
+  },
+  {
+    id: "sessions_mcid_null_rate",
+    type: "null_rate",
+    dataset: "sessions",
+    severity: "warn",
+    column: "mcid",
+    maxRate: 10,
+  },
+  {
+    id: "leads_session_coverage",
+    type: "join_coverage",
+    dataset: "leads",
+    severity: "warn",
+    column: "mcId",
+    reference: "sessions",
+    referenceColumn: "mcid",
+    minRate: 90,
+  },
+  {
+    id: "transactions_contact_coverage",
+    type: "join_coverage",
+    dataset: "transactions",
+    severity: "warn",
+    column: "mcId",
+    reference: "contacts",
+    referenceColumn: "mcId",
+    minRate: 90,
+  },
+];
+
+/**
+ * Check that a value parsed from a rules file is a valid rule
+ * @throws Error naming the rule and what is wrong with it
+ */
+function validateRule(value: unknown, index: number): DataQualityRule {
+  const rule = (value ?? {}) as Record<string, unknown>;
+  const label = typeof rule.id === "string" ? rule.id : `#${index + 1}`;
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid data quality rule ${label}: ${reason}`);
+  };
+
+  const isDataset = (name: unknown): name is DataSetName =>
+    typeof name === "string" && name in ENTITY_SCHEMAS;
+  const checkColumn = (dataset: DataSetName, column: unknown) => {
+    if (typeof column !== "string" || !(column in ENTITY_SCHEMAS[dataset])) {
+      fail(`${dataset} has no column ${column}`);
+    }
+  };
+  const checkNumber = (name: string, optional = false) => {
+    const n = rule[name];
+    if (optional && n === undefined) return;
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0) {
+      fail(`${name} must be a non-negative number`);
+    }
+  };
+
+  if (typeof rule.id !== "string" || rule.id.trim().length === 0) {
+    fail("id is required");
+  }
+  if (!RULE_TYPES.includes(rule.type as DataQualityRuleType)) {
+    fail(`type must be one of ${RULE_TYPES.join(", ")}`);
+  }
+  if (!SEVERITIES.includes(rule.severity as DataQualitySeverity)) {
+    fail(`severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (!isDataset(rule.dataset)) {
+    fail(`dataset must be one of ${Object.keys(ENTITY_SCHEMAS).join(", ")}`);
+  }
+  const dataset = rule.dataset as DataSetName;
+
+  switch (rule.type as DataQualityRuleType) {
+    case "null_rate":
+      checkColumn(dataset, rule.column);
+      checkNumber("maxRate");
+      break;
+    case "allowed_values":
+      checkColumn(dataset, rule.column);
+      if (
+        !Array.isArray(rule.values) ||
+        rule.values.some((v) => typeof v !== "string")
+      ) {
+        fail("values must be a list of strings");
+      }
+      checkNumber("maxRate", true);
+      break;
+    case "volume":
+      checkNumber("lookbackDays", true);
+      checkNumber("deviations", true);
+      checkNumber("min", true);
+      checkNumber("max", true);
+      break;
+    case "freshness":
+      if (!DATASET_DATE_FIELDS[dataset]) fail(`${dataset} has no dates`);
+      checkNumber("maxAgeDays");
+      break;
+    case "join_coverage":
+      checkColumn(dataset, rule.column);
+      if (!isDataset(rule.reference)) {
+        fail(
+          `reference must be one of ${Object.keys(ENTITY_SCHEMAS).join(", ")}`
+        );
+      }
+      checkColumn(rule.reference as DataSetName, rule.referenceColumn);
+      checkNumber("minRate");
+      break;
+  }
+
+  return rule as unknown as DataQualityRule;
+}
+
+/**
+ * Load data quality rules from a JSON file holding a list of rules. The
+ * file's rules replace the default ones.
+ * @param filePath Path of the rules file
+ * @returns Validated rules
+ * @throws Error if the file can't be read or a rule is invalid
+ */
+export async function loadDataQualityRules(
+  filePath: string
+): Promise<DataQualityRule[]> {
+  const content = await fs.promises.readFile(filePath, "utf-8");
+  const parsed: unknown = JSON.parse(content);
+  if (!Array.isArray(parsed)) {
+    throw new Error(
+      `Data quality rules file ${filePath} must hold a list of rules`
+    );
+  }
+
+  const rules = parsed.map(validateRule);
+  const ids = new Set<string>();
+  rules.forEach((rule) => {
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate data quality rule id: ${rule.id}`);
+    }
+    ids.add(rule.id);
+  });
+
+  return rules;
+}
+
+// Value of a column of a record, as a trimmed string; empty if missing
+const readColumn = (record: object, column: string): string => {
+  const value = (record as Record<string, unknown>)[column];
+  return value === undefined || value === null ? "" : String(value).trim();
+};
+
+// Calendar day of a record of a dated dataset
+const recordDate = (dataset: DataSetName, record: object): string => {
+  const field = DATASET_DATE_FIELDS[dataset]!;
+  return extractDatePart(readColumn(record, field));
+};
+
+/**
+ * Measure one rule on the data
+ */
+function evaluateRule(
+  data: DataSet,
+  rule: DataQualityRule,
+  analysisDate: string
+): DataQualityRuleOutcome {
+  const records: object[] = data[rule.dataset];
+  const outcome = {
+    ruleId: rule.id,
+    type: rule.type,
+    dataset: rule.dataset,
+    severity: rule.severity,
+  };
+  const percent = (value: number) => `${value.toFixed(2)}%`;
+
+  switch (rule.type) {
+    case "null_rate": {
+      const empty = records.filter(
+        (r) => readColumn(r, rule.column) === ""
+      ).length;
+      const rate = records.length > 0 ? (empty / records.length) * 100 : null;
+      return {
+        ...outcome,
+        passed: rate === null || rate <= rule.maxRate,
+        measured: rate,
+        unit: "percent",
+        expected: { max: rule.maxRate },
+        message:
+          rate === null
+            ? `${rule.dataset} has no rows to check ${rule.column} for empty values`
+            : `${percent(rate)} of ${rule.dataset} rows have no ${
+                rule.column
+              } (at most ${percent(rule.maxRate)} allowed)`,
+      };
+    }
+
+    case "allowed_values": {
+      const allowed = new Set(rule.values);
+      const values = records
+        .map((r) => readColumn(r, rule.column))
+        .filter((value) => value !== "");
+      const unexpected = values.filter((value) => !allowed.has(value));
+      const rate =
+        values.length > 0 ? (unexpected.length / values.length) * 100 : null;
+      const maxRate = rule.maxRate ?? 0;
+      const examples = [...new Set(unexpected)].slice(0, 3);
+      return {
+        ...outcome,
+        passed: rate === null || rate <= maxRate,
+        measured: rate,
+        unit: "percent",
+        expected: { max: maxRate },
+        message:
+          rate === null
+            ? `${rule.dataset} has no ${rule.column} values to check`
+            : `${percent(rate)} of ${rule.dataset} ${
+                rule.column
+              } values are not allowed (at most ${percent(maxRate)})${
+                examples.length > 0 ? `, e.g. ${examples.join(", ")}` : ""
+              }`,
+      };
+    }
+
+    case "volume":
+      return evaluateVolumeRule(records, rule, analysisDate, outcome);
+
+    case "freshness": {
+      const latest = records
+        .map((r) => recordDate(rule.dataset, r))
+        .filter((date) => date !== "" && date <= analysisDate)
+        .reduce((max, date) => (date > max ? date : max), "");
+      const age = latest ? daysBetween(latest, analysisDate) : null;
+      return {
+        ...outcome,
+        passed: age !== null && age <= rule.maxAgeDays,
+        measured: age,
+        unit: "days",
+        expected: { max: rule.maxAgeDays },
+        message:
+          age === null
+            ? `${rule.dataset} has no records on or before ${analysisDate}`
+            : `The latest ${rule.dataset} record is from ${latest}, ${age} days before ${analysisDate} (at most ${rule.maxAgeDays} allowed)`,
+      };
+    }
+
+    case "join_coverage": {
+      const referenceValues = new Set(
+        (data[rule.reference] as object[]).map((r) =>
+          readColumn(r, rule.referenceColumn)
+        )
+      );
+      const values = new Set(
+        records
+          .map((r) => readColumn(r, rule.column))
+          .filter((value) => value !== "")
+      );
+      const matched = [...values].filter((value) =>
+        referenceValues.has(value)
+      ).length;
+      const rate = values.size > 0 ? (matched / values.size) * 100 : null;
+      return {
+        ...outcome,
+        passed: rate === null || rate >= rule.minRate,
+        measured: rate,
+        unit: "percent",
+        expected: { min: rule.minRate },
+        message:
+          rate === null
+            ? `${rule.dataset} has no ${rule.column} values to match with ${rule.reference}`
+            : `${percent(rate)} of ${rule.dataset} ${rule.column} values have ${
+                rule.reference
+              } data (at least ${percent(rule.minRate)} expected)`,
+      };
+    }
+  }
+}
+
+/**
+ * Compare the rows of the analysis date with bounds learned from the days
+ * before it: the median daily rows plus or minus a number of robust
+ * deviations. Explicit min and max bounds take precedence, and are the only
+ * bounds of undated datasets, which are checked on their total rows.
+ */
+function evaluateVolumeRule(
+  records: object[],
+  rule: Extract<DataQualityRule, { type: "volume" }>,
+  analysisDate: string,
+  outcome: Pick<
+    DataQualityRuleOutcome,
+    "ruleId" | "type" | "dataset" | "severity"
+  >
+): DataQualityRuleOutcome {
+  const dated = DATASET_DATE_FIELDS[rule.dataset] !== undefined;
+
+  let measured = records.length;
+  let learned: { min: number; max: number } | undefined;
+  if (dated) {
+    const rowsByDate = new Map<string, number>();
+    records.forEach((r) => {
+      const date = recordDate(rule.dataset, r);
+      rowsByDate.set(date, (rowsByDate.get(date) || 0) + 1);
+    });
+    measured = rowsByDate.get(analysisDate) || 0;
+
+    // Days without rows count as zero, but not before the dataset's first row
+    const lookbackDays = rule.lookbackDays ?? DEFAULT_VOLUME_LOOKBACK_DAYS;
+    const firstDate = [...rowsByDate.keys()]
+      .filter((date) => date !== "")
+      .reduce((min, date) => (date < min ? date : min), analysisDate);
+    const historyStart =
+      firstDate > addDays(analysisDate, -lookbackDays)
+        ? firstDate
+        : addDays(analysisDate, -lookbackDays);
+    const history: number[] = [];
+    for (
+      let date = historyStart;
+      date < analysisDate;
+      date = addDays(date, 1)
+    ) {
+      history.push(rowsByDate.get(date) || 0);
+    }
+
+    if (history.length >= MIN_VOLUME_HISTORY_DAYS) {
+      const center = median(history);
+      const spread =
+        Math.max(scaledMad(history), center * MIN_RELATIVE_VOLUME_SPREAD) || 1;
+      const deviations = rule.deviations ?? DEFAULT_VOLUME_DEVIATIONS;
+      learned = {
+        min: Math.max(center - deviations * spread, 0),
+        max: center + deviations * spread,
+      };
+    }
+  }
+
+  const expected = {
+    min: rule.min ?? learned?.min,
+    max: rule.max ?? learned?.max,
+  };
+  const passed =
+    (expected.min === undefined || measured >= expected.min) &&
+    (expected.max === undefined || measured <= expected.max);
+  const bounds =
+    expected.min !== undefined && expected.max !== undefined
+      ? `expected ${expected.min.toFixed(0)} to ${expected.max.toFixed(0)}`
+      : expected.min !== undefined
+      ? `expected at least ${expected.min.toFixed(0)}`
+      : expected.max !== undefined
+      ? `expected at most ${expected.max.toFixed(0)}`
+      : "not enough history to learn its normal range";
+
+  return {
+    ...outcome,
+    passed,
+    measured,
+    unit: "rows",
+    expected,
+    message: `${rule.dataset} has ${measured} rows${
+      dated ? ` on ${analysisDate}` : ""
+    } (${bounds})`,
+  };
+}
+
+// Suggestion for a failed rule
+function suggestFix(rule: DataQualityRule): string {
+  switch (rule.type) {
+    case "null_rate":
+      return `Check why ${rule.column} is missing from ${rule.dataset} rows in the export`;
+    case "allowed_values":
+      return `Fix or map the unexpected ${rule.column} values in ${rule.dataset}, or add them to the allowed values`;
+    case "volume":
+      return `Check if there are tracking issues or a genuine change in ${rule.dataset} volume`;
+    case "freshness":
+      return `Check that the ${rule.dataset} export is running and up to date`;
+    case "join_coverage":
+      return `Improve ${rule.reference} tracking to ensure all ${rule.dataset} have associated ${rule.reference} data`;
+  }
+}
+
+/**
+ * Run data quality rules on the loaded data
+ * @param data Loaded data, including the history before the analysis date
+ * @param rules Rules to run
+ * @param analysisDate Date volumes and freshness are checked on
+ * @returns The outcome of every rule, the failed "error" rules as issues and
+ * the failed "warn" rules as warnings, and suggestions for the failed ones
+ */
+export function evaluateDataQualityRules(
+  data: DataSet,
+  rules: DataQualityRule[],
+  analysisDate: string
+) {
+  const outcomes = rules.map((rule) => evaluateRule(data, rule, analysisDate));
+  const failed = rules.filter((_, i) => !outcomes[i].passed);
+
+  return {
+    outcomes,
+    issues: outcomes
+      .filter((o) => !o.passed && o.severity === "error")
+      .map((o) => `${o.message} [${o.ruleId}, ${o.severity}]`),
+    warnings: outcomes
+      .filter((o) => !o.passed && o.severity === "warn")
+      .map((o) => `${o.message} [${o.ruleId}, ${o.severity}]`),
+    suggestions: [...new Set(failed.map(suggestFix))],
+  };
+}
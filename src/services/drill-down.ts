@@ -0,0 +1,340 @@
+import {
+  Atom,
+  AtomDimension,
+  DimensionDrillDown,
+  DrillDownAnalysis,
+  DrillDownSlice,
+  Session,
+  SessionDimension,
+  SliceMetrics,
+  SourceData,
+  Transaction,
+} from "../types";
+import { parseTimestamp } from "../utils/date-utils";
+import { getPersonId } from "./identity-resolution";
+
+export const ATOM_DIMENSIONS: AtomDimension[] = [
+  "sourceName",
+  "sourceGroupName",
+  "groupsOfSourceGroupName",
+  "isPaidName",
+  "campaignId",
+  "adsetId",
+  "adId",
+];
+
+export const SESSION_DIMENSIONS: SessionDimension[] = [
+  "deviceCategory",
+  "deviceOperatingSystem",
+  "geoCountry",
+  "geoRegion",
+];
+
+// Number of top movers and bottom performers reported per dimension
+const TOP_SLICES = 3;
+
+// Smallest share of a dimension's spend (or sessions) a slice needs to be
+// ranked as a bottom performer, so tiny slices don't dominate the ranking
+const MIN_VOLUME_SHARE = 0.05;
+
+// Slice of records with no value for a dimension
+const NOT_SET = "(not set)";
+// Slice of transactions whose atom or client sessions are unknown
+const UNMATCHED = "(unmatched)";
+
+// Records of one period
+interface DrillDownPeriod {
+  sessions: Session[];
+  transactions: Transaction[];
+  sourceData: SourceData[];
+}
+
+// Running totals of a slice
+interface SliceTotals {
+  spend: number;
+  clicks: number;
+  sessions: number;
+  revenue: number;
+  conversions: number;
+  customers: Set<string>;
+}
+
+/**
+ * Get the value of an atom dimension, naming slices of unknown atoms and
+ * atoms without a value
+ * @param atom Atom of a record, undefined if its id is not in the atoms table
+ * @param dimension Atom dimension
+ */
+export function getAtomDimensionValue(
+  atom: Atom | undefined,
+  dimension: AtomDimension
+): string {
+  if (!atom) return UNMATCHED;
+  return atom[dimension]?.trim() || NOT_SET;
+}
+
+/**
+ * Total the records of a period by slice. Spend and sessions are only
+ * totalled when the dimension can split them.
+ */
+function totalSlices(
+  period: DrillDownPeriod,
+  transactionSlice: (tx: Transaction) => string,
+  spendSlice?: (sd: SourceData) => string,
+  sessionSlice?: (session: Session) => string
+): Map<string, SliceTotals> {
+  const slices = new Map<string, SliceTotals>();
+  const sliceFor = (value: string) => {
+    let slice = slices.get(value);
+    if (!slice) {
+      slice = {
+        spend: 0,
+        clicks: 0,
+        sessions: 0,
+        revenue: 0,
+        conversions: 0,
+        customers: new Set(),
+      };
+      slices.set(value, slice);
+    }
+    return slice;
+  };
+
+  period.transactions.forEach((tx) => {
+    const slice = sliceFor(transactionSlice(tx));
+    slice.revenue += tx.paidSumOriginalCurrency;
+    slice.conversions++;
+    const person = getPersonId(tx);
+    if (tx.ch_isFirstClientPaid && person) slice.customers.add(person);
+  });
+  if (spendSlice) {
+    period.sourceData.forEach((sd) => {
+      const slice = sliceFor(spendSlice(sd));
+      slice.spend += sd.budgetSpent;
+      slice.clicks += sd.clicks;
+    });
+  }
+  if (sessionSlice) {
+    period.sessions.forEach((session) => {
+      sliceFor(sessionSlice(session)).sessions++;
+    });
+  }
+
+  return slices;
+}
+
+/**
+ * Turn slice totals into slice metrics, leaving out what the dimension
+ * can't measure
+ */
+function toSliceMetrics(
+  totals: SliceTotals | undefined,
+  source: DimensionDrillDown["source"]
+): SliceMetrics {
+  const revenue = totals?.revenue || 0;
+  const customers = totals?.customers.size || 0;
+  const spend = source === "atom" ? totals?.spend || 0 : null;
+  const sessions = source === "session" ? totals?.sessions || 0 : null;
+
+  return {
+    spend,
+    clicks: source === "atom" ? totals?.clicks || 0 : null,
+    sessions,
+    revenue,
+    conversions: totals?.conversions || 0,
+    customers,
+    roas: spend !== null && spend > 0 ? revenue / spend : null,
+    cac:
+      spend !== null && spend > 0 && customers > 0 ? spend / customers : null,
+    revenuePerSession:
+      sessions !== null && sessions > 0 ? revenue / sessions : null,
+  };
+}
+
+/**
+ * Compare the slices of one dimension between periods, and pick the top
+ * movers and bottom performers
+ */
+function drillDownDimension(
+  dimension: DimensionDrillDown["dimension"],
+  source: DimensionDrillDown["source"],
+  current: Map<string, SliceTotals>,
+  previous: Map<string, SliceTotals>
+): DimensionDrillDown {
+  const values = [...new Set([...current.keys(), ...previous.keys()])];
+  const slices: DrillDownSlice[] = values.map((value) => {
+    const currentMetrics = toSliceMetrics(current.get(value), source);
+    const previousMetrics = toSliceMetrics(previous.get(value), source);
+    return {
+      value,
+      current: currentMetrics,
+      previous: previousMetrics,
+      revenueChange: currentMetrics.revenue - previousMetrics.revenue,
+      contribution: 0,
+    };
+  });
+
+  // Each slice's share of the total change, in percent of the absolute change
+  const totalChange = slices.reduce((sum, s) => sum + s.revenueChange, 0);
+  slices.forEach((s) => {
+    s.contribution =
+      totalChange !== 0 ? (s.revenueChange / Math.abs(totalChange)) * 100 : 0;
+  });
+
+  const topMovers = slices
+    .filter((s) => s.revenueChange !== 0)
+    .sort((a, b) => Math.abs(b.revenueChange) - Math.abs(a.revenueChange))
+    .slice(0, TOP_SLICES);
+
+  const performanceMetric = source === "atom" ? "roas" : "revenuePerSession";
+  const volumeOf = (s: DrillDownSlice) =>
+    (source === "atom" ? s.current.spend : s.current.sessions) || 0;
+  const totalVolume = slices.reduce((sum, s) => sum + volumeOf(s), 0);
+  const bottomPerformers = slices
+    .filter(
+      (s) =>
+        s.current[performanceMetric] !== null &&
+        volumeOf(s) >= totalVolume * MIN_VOLUME_SHARE
+    )
+    .sort(
+      (a, b) => a.current[performanceMetric]! - b.current[performanceMetric]!
+    )
+    .slice(0, TOP_SLICES);
+
+  return {
+    dimension,
+    source,
+    performanceMetric,
+    sliceCount: slices.length,
+    topMovers,
+    bottomPerformers,
+  };
+}
+
+/**
+ * Slice revenue, conversions, new customers, spend, clicks, ROAS and CAC by
+ * every atom dimension, and revenue and revenue per session by every session
+ * dimension, comparing the current period with the previous one. Spend can
+ * only be split by atom, so session dimensions have no spend, ROAS or CAC;
+ * transactions take the session dimensions of their person's first session.
+ * @param current Records of the current period
+ * @param previous Records of the previous period
+ * @param atoms Atoms, with the dimension values of each atom id
+ * @returns Top movers and bottom performers of each dimension
+ */
+export function analyzeDrillDown(
+  current: DrillDownPeriod,
+  previous: DrillDownPeriod,
+  atoms: Atom[]
+): DrillDownAnalysis {
+  const atomById = new Map(atoms.map((atom) => [atom.atomId, atom]));
+
+  const atomDimensions = ATOM_DIMENSIONS.map((dimension) => {
+    const valueOf = (atomId: string) =>
+      getAtomDimensionValue(atomById.get(atomId), dimension);
+    const slicePeriod = (period: DrillDownPeriod) =>
+      totalSlices(
+        period,
+        (tx) => valueOf(tx.atomid),
+        (sd) => valueOf(sd.atomId)
+      );
+
+    return drillDownDimension(
+      dimension,
+      "atom",
+      slicePeriod(current),
+      slicePeriod(previous)
+    );
+  });
+
+  // First session of each person across both periods
+  const firstSessions = new Map<string, { time: number; session: Session }>();
+  [...previous.sessions, ...current.sessions].forEach((session) => {
+    const person = getPersonId(session);
+    if (!person) return;
+    const time = parseTimestamp(session.datetimeShifted) ?? Infinity;
+    const first = firstSessions.get(person);
+    if (!first || time < first.time) {
+      firstSessions.set(person, { time, session });
+    }
+  });
+
+  const sessionDimensions = SESSION_DIMENSIONS.map((dimension) => {
+    const valueOf = (session: Session) => session[dimension]?.trim() || NOT_SET;
+    const slicePeriod = (period: DrillDownPeriod) =>
+      totalSlices(
+        period,
+        (tx) => {
+          const first = firstSessions.get(getPersonId(tx));
+          return first ? valueOf(first.session) : UNMATCHED;
+        },
+        undefined,
+        valueOf
+      );
+
+    return drillDownDimension(
+      dimension,
+      "session",
+      slicePeriod(current),
+      slicePeriod(previous)
+    );
+  });
+
+  // Session dimensions mean nothing without any sessions
+  const dimensions = [
+    ...atomDimensions,
+    ...(current.sessions.length + previous.sessions.length > 0
+      ? sessionDimensions
+      : []),
+  ];
+
+  return {
+    dimensions,
+    insights: generateDrillDownInsights(dimensions),
+  };
+}
+
+/**
+ * Describe the largest mover and the weakest performer of each dimension
+ * with more than one slice
+ */
+function generateDrillDownInsights(dimensions: DimensionDrillDown[]): string[] {
+  const insights: string[] = [];
+
+  dimensions
+    .filter((d) => d.sliceCount > 1)
+    .forEach((d) => {
+      const mover = d.topMovers[0];
+      if (mover) {
+        insights.push(
+          `By ${d.dimension}, ${mover.value} moved revenue the most: ${
+            mover.revenueChange >= 0 ? "+" : ""
+          }${mover.revenueChange.toFixed(2)} (${mover.contribution.toFixed(
+            2
+          )}% of the total change)`
+        );
+      }
+
+      const weakest = d.bottomPerformers[0];
+      if (weakest && d.bottomPerformers.length > 1) {
+        const value = weakest.current[d.performanceMetric]!;
+        const metricName =
+          d.performanceMetric === "roas" ? "ROAS" : "revenue per session";
+        insights.push(
+          value > 0
+            ? `By ${d.dimension}, ${
+                weakest.value
+              } has the lowest ${metricName} among its larger slices: ${value.toFixed(
+                2
+              )}`
+            : `By ${d.dimension}, ${weakest.value} has no tracked revenue despite being one of its larger slices`
+        );
+      }
+    });
+
+  if (insights.length === 0) {
+    insights.push("No dimension has more than one slice to compare");
+  }
+
+  return insights;
+}
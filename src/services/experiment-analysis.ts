@@ -0,0 +1,211 @@
+import {
+  ConversionStageCounts,
+  DataSet,
+  DateRange,
+  ExperimentAnalysis,
+  ExperimentGroupMetrics,
+  ExperimentVerdict,
+} from "../types";
+import {
+  calculateROAS,
+  calculateCAC,
+  countFunnelStages,
+  FunnelCounts,
+  buildDailyUnits,
+  roasOfUnits,
+  cacOfUnits,
+} from "./data-analysis";
+import { filterDataSetByDateRange } from "../utils/date-utils";
+import {
+  bootstrapDifferenceTest,
+  DifferenceTestResult,
+  isSignificantDifference,
+  twoProportionTest,
+} from "../utils/statistics";
+
+/**
+ * Calculate the headline metrics of one experiment group
+ */
+function calculateGroupMetrics(
+  group: ExperimentGroupMetrics["group"],
+  data: DataSet,
+  funnel: FunnelCounts
+): ExperimentGroupMetrics {
+  return {
+    group,
+    spend: data.sourceData.reduce((sum, sd) => sum + sd.budgetSpent, 0),
+    revenue: data.transactions.reduce(
+      (sum, tx) => sum + tx.paidSumOriginalCurrency,
+      0
+    ),
+    roas: calculateROAS(data.transactions, data.sourceData),
+    cac: calculateCAC(data.transactions, data.sourceData),
+    visitors: funnel.visitors,
+    leads: funnel.leads,
+    contacts: funnel.contacts,
+    customers: funnel.customers,
+  };
+}
+
+/**
+ * Count the funnel of one experiment group
+ */
+function countGroupFunnel(data: DataSet): FunnelCounts {
+  return countFunnelStages(
+    data.sessions,
+    data.leads,
+    data.contacts,
+    data.transactions,
+    data.contact2Leads
+  );
+}
+
+/**
+ * Decide which group wins a comparison
+ */
+function getVerdict(
+  result: DifferenceTestResult | undefined,
+  higherIsBetter: boolean,
+  confidenceLevel: number
+): ExperimentVerdict {
+  if (!result) return "insufficient_data";
+
+  if (!isSignificantDifference(result, confidenceLevel)) {
+    return "no_significant_difference";
+  }
+
+  return result.difference > 0 === higherIsBetter
+    ? "test_better"
+    : "control_better";
+}
+
+/**
+ * Compare the test group with the control group over a period: ROAS and CAC
+ * with bootstrap intervals over daily units, and every funnel stage with a
+ * two-proportion z-test
+ * @param testData Test group dataset
+ * @param controlData Control group dataset
+ * @param period Period compared for both groups
+ * @param confidenceLevel Confidence level of the intervals, e.g. 0.95
+ * @param bootstrapIterations Number of bootstrap resamples for ratio metrics
+ * @returns Experiment analysis for the daily brief
+ */
+export function analyzeExperiment(
+  testData: DataSet,
+  controlData: DataSet,
+  period: DateRange,
+  confidenceLevel: number,
+  bootstrapIterations: number
+): ExperimentAnalysis {
+  const test = filterDataSetByDateRange(testData, period);
+  const control = filterDataSetByDateRange(controlData, period);
+
+  const testFunnel = countGroupFunnel(test);
+  const controlFunnel = countGroupFunnel(control);
+  const testMetrics = calculateGroupMetrics("test", test, testFunnel);
+  const controlMetrics = calculateGroupMetrics(
+    "control",
+    control,
+    controlFunnel
+  );
+
+  const comparisons: ExperimentAnalysis["comparisons"] = [];
+
+  // Ratio metrics, resampled by day
+  const testUnits = buildDailyUnits(test.transactions, test.sourceData);
+  const controlUnits = buildDailyUnits(
+    control.transactions,
+    control.sourceData
+  );
+
+  const ratioMetrics = [
+    {
+      metric: "ROAS",
+      higherIsBetter: true,
+      statistic: roasOfUnits,
+      test: testMetrics.roas,
+      control: controlMetrics.roas,
+    },
+    {
+      metric: "CAC",
+      higherIsBetter: false,
+      statistic: cacOfUnits,
+      test: testMetrics.cac,
+      control: controlMetrics.cac,
+    },
+  ];
+
+  ratioMetrics.forEach((ratio) => {
+    const result = bootstrapDifferenceTest(
+      testUnits,
+      controlUnits,
+      ratio.statistic,
+      confidenceLevel,
+      bootstrapIterations
+    );
+
+    comparisons.push({
+      metric: ratio.metric,
+      method: "bootstrap",
+      higherIsBetter: ratio.higherIsBetter,
+      test: ratio.test,
+      control: ratio.control,
+      absoluteLift: result?.difference ?? ratio.test - ratio.control,
+      relativeLift: result?.relativeDifference ?? 0,
+      absoluteLiftInterval: result?.confidenceInterval ?? {
+        lower: NaN,
+        upper: NaN,
+      },
+      relativeLiftInterval: result?.relativeConfidenceInterval ?? {
+        lower: NaN,
+        upper: NaN,
+      },
+      pValue: result?.pValue ?? 1,
+      verdict: getVerdict(result, ratio.higherIsBetter, confidenceLevel),
+    });
+  });
+
+  // Funnel stages as proportions, reported in percent / percentage points
+  testFunnel.stages.forEach((testStage, index) => {
+    const controlStage = controlFunnel.stages[index];
+    const result = twoProportionTest(
+      testStage.converted,
+      testStage.total,
+      controlStage.converted,
+      controlStage.total,
+      confidenceLevel
+    );
+    const rate = (stage: ConversionStageCounts) =>
+      stage.total > 0 ? (stage.converted / stage.total) * 100 : 0;
+
+    comparisons.push({
+      metric: testStage.name,
+      method: "two_proportion_z_test",
+      higherIsBetter: true,
+      test: rate(testStage),
+      control: rate(controlStage),
+      absoluteLift: (result?.difference ?? 0) * 100,
+      relativeLift: result?.relativeDifference ?? 0,
+      absoluteLiftInterval: result
+        ? {
+            lower: result.confidenceInterval.lower * 100,
+            upper: result.confidenceInterval.upper * 100,
+          }
+        : { lower: NaN, upper: NaN },
+      relativeLiftInterval: result?.relativeConfidenceInterval ?? {
+        lower: NaN,
+        upper: NaN,
+      },
+      pValue: result?.pValue ?? 1,
+      verdict: getVerdict(result, true, confidenceLevel),
+    });
+  });
+
+  return {
+    period,
+    confidenceLevel,
+    test: testMetrics,
+    control: controlMetrics,
+    comparisons,
+  };
+}
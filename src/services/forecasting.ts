@@ -0,0 +1,377 @@
+import {
+  DailyMetric,
+  DailySeries,
+  ForecastAnalysis,
+  ForecastMetric,
+  ForecastPoint,
+  MetricForecast,
+} from "../types";
+import { addDays } from "../utils/date-utils";
+import { criticalZ } from "../utils/statistics";
+import { getMissingDates, groupMissingDates } from "./time-series";
+
+// Length of the weekly season in days
+const SEASON_LENGTH = 7;
+
+// Shortest and longest supported forecast horizons in days
+export const MIN_FORECAST_HORIZON_DAYS = 7;
+export const MAX_FORECAST_HORIZON_DAYS = 30;
+
+// Damping of the trend, so a short history's trend isn't extrapolated
+// linearly over the whole horizon
+const TREND_DAMPING = 0.9;
+
+// Smoothing parameters tried when fitting each series
+const LEVEL_SMOOTHING = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const TREND_SMOOTHING = [0, 0.05, 0.1, 0.2];
+const SEASONAL_SMOOTHING = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+// Daily series projected directly; ROAS is derived from revenue and spend
+type ForecastSeries = Extract<DailyMetric, ForecastMetric>;
+const FORECAST_SERIES: ForecastSeries[] = ["spend", "revenue", "newCustomers"];
+
+interface HoltWintersFit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  // Seasonal components, indexed by day modulo the season length
+  seasonals: number[];
+  // Mean squared one-step-ahead error after the first season
+  mse: number;
+}
+
+/**
+ * Run additive Holt-Winters smoothing with a damped trend over a series.
+ * Missing days take their one-step-ahead forecast, so they carry the level,
+ * trend and season forward without moving them or counting as errors.
+ * @param values Daily values, oldest first, at least two seasons long, null
+ * on days without data
+ * @param alpha Level smoothing
+ * @param beta Trend smoothing
+ * @param gamma Seasonal smoothing
+ * @returns Final state and one-step-ahead error
+ */
+function smooth(
+  values: (number | null)[],
+  alpha: number,
+  beta: number,
+  gamma: number
+): HoltWintersFit {
+  // Start from the mean of the first season and the change to the second,
+  // over the days with data
+  const firstSeason = values.slice(0, SEASON_LENGTH);
+  const secondSeason = values.slice(SEASON_LENGTH, 2 * SEASON_LENGTH);
+  const mean = (xs: (number | null)[]) => {
+    const known = xs.filter((x): x is number => x !== null);
+    return known.length > 0
+      ? known.reduce((sum, x) => sum + x, 0) / known.length
+      : undefined;
+  };
+
+  let level = mean(firstSeason) ?? 0;
+  let trend = ((mean(secondSeason) ?? level) - level) / SEASON_LENGTH;
+  const seasonals = firstSeason.map((x) => (x === null ? 0 : x - level));
+
+  let squaredErrors = 0;
+  let errorCount = 0;
+
+  values.forEach((observed, t) => {
+    const season = t % SEASON_LENGTH;
+    const dampedTrend = TREND_DAMPING * trend;
+    const forecast = level + dampedTrend + seasonals[season];
+    const value = observed ?? forecast;
+    const error = value - forecast;
+    if (t >= SEASON_LENGTH && observed !== null) {
+      squaredErrors += error * error;
+      errorCount++;
+    }
+
+    const previousLevel = level;
+    level =
+      alpha * (value - seasonals[season]) + (1 - alpha) * (level + dampedTrend);
+    trend = beta * (level - previousLevel) + (1 - beta) * dampedTrend;
+    seasonals[season] =
+      gamma * (value - level) + (1 - gamma) * seasonals[season];
+  });
+
+  return {
+    alpha,
+    beta,
+    gamma,
+    level,
+    trend,
+    seasonals,
+    mse: errorCount > 0 ? squaredErrors / errorCount : 0,
+  };
+}
+
+/**
+ * Fit Holt-Winters smoothing parameters by minimizing the one-step-ahead
+ * squared error over a grid
+ */
+function fitHoltWinters(values: (number | null)[]): HoltWintersFit {
+  let best: HoltWintersFit | undefined;
+  LEVEL_SMOOTHING.forEach((alpha) =>
+    TREND_SMOOTHING.forEach((beta) =>
+      SEASONAL_SMOOTHING.forEach((gamma) => {
+        const fit = smooth(values, alpha, beta, gamma);
+        if (!best || fit.mse < best.mse) best = fit;
+      })
+    )
+  );
+  return best!;
+}
+
+/**
+ * Project a fitted series forward. Prediction interval widths follow the
+ * forecast variance of the equivalent additive damped-trend state space
+ * model, and values and bounds are floored at zero.
+ * @param fit Fitted Holt-Winters state
+ * @param historyLength Number of days the model was fitted on
+ * @param startDate First projected day
+ * @param horizonDays Number of days to project
+ * @param z Critical value of the prediction intervals
+ * @returns Daily projections, and the variance of each one
+ */
+function projectFit(
+  fit: HoltWintersFit,
+  historyLength: number,
+  startDate: string,
+  horizonDays: number,
+  z: number
+): { points: ForecastPoint[]; variances: number[] } {
+  // Seasonal smoothing in state space form
+  const seasonalWeight = (1 - fit.alpha) * fit.gamma;
+
+  const points: ForecastPoint[] = [];
+  const variances: number[] = [];
+  let dampingSum = 0;
+  let errorMultiplier = 1;
+
+  for (let h = 1; h <= horizonDays; h++) {
+    dampingSum += Math.pow(TREND_DAMPING, h);
+    const season = (historyLength + h - 1) % SEASON_LENGTH;
+    const value = fit.level + dampingSum * fit.trend + fit.seasonals[season];
+    const variance = fit.mse * errorMultiplier;
+    const margin = z * Math.sqrt(variance);
+
+    points.push({
+      date: addDays(startDate, h - 1),
+      value: Math.max(value, 0),
+      lower: Math.max(value - margin, 0),
+      upper: Math.max(value + margin, 0),
+    });
+    variances.push(variance);
+
+    // Weight of the error h steps back in the next step's forecast
+    const c =
+      fit.alpha * (1 + fit.beta * dampingSum) +
+      (h % SEASON_LENGTH === 0 ? seasonalWeight : 0);
+    errorMultiplier += c * c;
+  }
+
+  return { points, variances };
+}
+
+/**
+ * Compare a horizon projection with the recent pace
+ */
+function getOutlook(
+  horizon: MetricForecast["horizon"],
+  recentPace: number
+): MetricForecast["outlook"] {
+  if (horizon.lower > recentPace) return "above";
+  if (horizon.upper < recentPace) return "below";
+  return "in_line";
+}
+
+/**
+ * Project spend, revenue, ROAS and new customers over the days after the
+ * analysis date with additive Holt-Winters smoothing with weekly seasonality.
+ * Horizon totals assume independent daily errors, and ROAS treats projected
+ * spend as planned, so its interval only reflects the revenue uncertainty.
+ * Each projection is compared with the recent pace: the mean of the last
+ * horizon's worth of days with data, scaled to the horizon. Days without
+ * data are imputed from the seasonal level rather than read as zero.
+ * @param series Daily series of each KPI, ending on the analysis date
+ * @param date Analysis date
+ * @param horizonDays Days to project (clamped to 7-30)
+ * @param confidenceLevel Confidence level of the prediction intervals
+ * @returns Forecast analysis for the daily brief
+ */
+export function forecastMetrics(
+  series: DailySeries[],
+  date: string,
+  horizonDays: number,
+  confidenceLevel: number
+): ForecastAnalysis {
+  const horizon = Math.min(
+    Math.max(Math.round(horizonDays), MIN_FORECAST_HORIZON_DAYS),
+    MAX_FORECAST_HORIZON_DAYS
+  );
+  const startDate = addDays(date, 1);
+  const z = criticalZ(confidenceLevel);
+
+  const histories = FORECAST_SERIES.map((metric) => {
+    const metricSeries = series.find((s) => s.metric === metric) || {
+      metric,
+      points: [],
+    };
+    return {
+      metric,
+      values: metricSeries.points
+        .filter((p) => p.date <= date)
+        .map((p) => p.value),
+      missingDates: getMissingDates(metricSeries, {
+        startDate: metricSeries.points[0]?.date ?? date,
+        endDate: startDate,
+      }),
+    };
+  });
+  const historyDays = Math.min(...histories.map((h) => h.values.length));
+
+  if (historyDays < 2 * SEASON_LENGTH) {
+    return {
+      startDate,
+      horizonDays: horizon,
+      historyDays,
+      confidenceLevel,
+      forecasts: [],
+      insights: [
+        `Not enough history to forecast: ${historyDays} days of data, at least ${
+          2 * SEASON_LENGTH
+        } needed`,
+      ],
+    };
+  }
+
+  const projections = new Map<
+    ForecastSeries,
+    {
+      points: ForecastPoint[];
+      total: MetricForecast["horizon"];
+      recentPace: number;
+      missingDates: string[];
+    }
+  >();
+  histories.forEach(({ metric, values, missingDates }) => {
+    const fit = fitHoltWinters(values);
+    const { points, variances } = projectFit(
+      fit,
+      values.length,
+      startDate,
+      horizon,
+      z
+    );
+
+    const total = points.reduce((sum, p) => sum + p.value, 0);
+    const margin =
+      z * Math.sqrt(variances.reduce((sum, variance) => sum + variance, 0));
+    const recent = values
+      .slice(-horizon)
+      .filter((value): value is number => value !== null);
+
+    projections.set(metric, {
+      points,
+      total: {
+        value: total,
+        lower: Math.max(total - margin, 0),
+        upper: total + margin,
+      },
+      recentPace:
+        recent.length > 0
+          ? (recent.reduce((sum, value) => sum + value, 0) / recent.length) *
+            horizon
+          : 0,
+      missingDates,
+    });
+  });
+
+  const forecasts: MetricForecast[] = FORECAST_SERIES.map((metric) => {
+    const { points, total, recentPace, missingDates } =
+      projections.get(metric)!;
+    return {
+      metric,
+      daily: points,
+      horizon: total,
+      recentPace,
+      outlook: getOutlook(total, recentPace),
+      missingDates,
+    };
+  });
+
+  const spend = projections.get("spend")!;
+  const revenue = projections.get("revenue")!;
+  if (spend.total.value > 0 && spend.recentPace > 0) {
+    const roasHorizon = {
+      value: revenue.total.value / spend.total.value,
+      lower: revenue.total.lower / spend.total.value,
+      upper: revenue.total.upper / spend.total.value,
+    };
+    const recentPace = revenue.recentPace / spend.recentPace;
+    forecasts.push({
+      metric: "roas",
+      daily: [],
+      horizon: roasHorizon,
+      recentPace,
+      outlook: getOutlook(roasHorizon, recentPace),
+      missingDates: [
+        ...new Set([...spend.missingDates, ...revenue.missingDates]),
+      ].sort(),
+    });
+  }
+
+  return {
+    startDate,
+    horizonDays: horizon,
+    historyDays,
+    confidenceLevel,
+    forecasts,
+    insights: generateForecastInsights(forecasts, horizon, confidenceLevel),
+  };
+}
+
+/**
+ * Describe each projection against the recent pace
+ */
+function generateForecastInsights(
+  forecasts: MetricForecast[],
+  horizonDays: number,
+  confidenceLevel: number
+): string[] {
+  const interval = `${(confidenceLevel * 100).toFixed(0)}% interval`;
+  const outlookText: Record<MetricForecast["outlook"], string> = {
+    above: "above",
+    in_line: "in line with",
+    below: "below",
+  };
+
+  const insights = forecasts.map(
+    (f) =>
+      `${f.metric} is projected at ${f.horizon.value.toFixed(
+        2
+      )} over the next ${horizonDays} days (${interval} ${f.horizon.lower.toFixed(
+        2
+      )} to ${f.horizon.upper.toFixed(2)}), ${
+        outlookText[f.outlook]
+      } the recent pace of ${f.recentPace.toFixed(2)}`
+  );
+  groupMissingDates(
+    forecasts
+      .filter((f) => f.metric !== "roas")
+      .map((f) => ({
+        metric: f.metric as ForecastSeries,
+        dates: f.missingDates,
+      }))
+  ).forEach(({ metrics, dates }) => {
+    insights.push(
+      `No ${metrics.join(", ")} data on ${dates.join(
+        ", "
+      )}; missing days were imputed from the seasonal level rather than counted as zero`
+    );
+  });
+
+  return insights;
+}
@@ -0,0 +1,360 @@
+import {
+  Contact,
+  DataSet,
+  IdentityCoverage,
+  IdentityStage,
+  IdentityStageCoverage,
+  Lead,
+  Session,
+  Transaction,
+} from "../types";
+
+// Namespaces a client is identified in: the mcId, and the Google client id
+// that sessions call userPseudoId and leads and contacts googleClientId
+type IdentifierType = "mcId" | "clientId";
+
+// A person is named after their mcId before their client id
+const IDENTIFIER_ORDER: IdentifierType[] = ["mcId", "clientId"];
+
+// Other identifiers one identifier may appear with before it looks like an id
+// shared by many clients, which isn't used to join people
+const MAX_LINKED_IDENTIFIERS = 50;
+
+// Identifier values that stand in for an unknown client, besides all zeros
+const PLACEHOLDER_IDENTIFIERS = new Set([
+  "-1",
+  "null",
+  "undefined",
+  "none",
+  "unknown",
+  "(not set)",
+]);
+
+// Share of payers below which too few payments can be traced to a session
+const MIN_PAYER_SESSION_COVERAGE = 50;
+
+type IdentifiedRecord = Session | Lead | Contact | Transaction;
+
+const identifierKey = (type: IdentifierType, value: string) =>
+  `${type}:${value}`;
+
+const typeOf = (key: string) =>
+  IDENTIFIER_ORDER.indexOf(key.slice(0, key.indexOf(":")) as IdentifierType);
+
+// Whether an identifier names a person before another one
+const precedes = (a: string, b: string) =>
+  typeOf(a) !== typeOf(b) ? typeOf(a) < typeOf(b) : a < b;
+
+/**
+ * Identifiers of a record, mcId first
+ */
+function getIdentifiers(record: IdentifiedRecord): string[] {
+  const keys: string[] = [];
+  const add = (type: IdentifierType, value: string | undefined) => {
+    const id = (value ?? "").trim();
+    if (id) keys.push(identifierKey(type, id));
+  };
+  if ("userPseudoId" in record) {
+    add("mcId", record.mcid);
+    add("clientId", record.userPseudoId);
+  } else {
+    add("mcId", record.mcId);
+    if ("googleClientId" in record) add("clientId", record.googleClientId);
+  }
+  return keys;
+}
+
+/**
+ * Whether an identifier is a placeholder value such as "0", an all-zero GUID
+ * or "(not set)"
+ */
+function isPlaceholderIdentifier(key: string): boolean {
+  const value = key.slice(key.indexOf(":") + 1).toLowerCase();
+  return /^[0-]+$/.test(value) || PLACEHOLDER_IDENTIFIERS.has(value);
+}
+
+/**
+ * Identifiers that can't name a single client: placeholder values, and
+ * identifiers that appear together with more than MAX_LINKED_IDENTIFIERS
+ * others across records
+ */
+function findSharedIdentifiers(records: IdentifiedRecord[]): Set<string> {
+  const shared = new Set<string>();
+  const linked = new Map<string, Set<string>>();
+  records.forEach((record) => {
+    const keys = getIdentifiers(record);
+    keys.forEach((key) => {
+      if (shared.has(key)) return;
+      if (isPlaceholderIdentifier(key)) {
+        shared.add(key);
+        return;
+      }
+      if (!linked.has(key)) linked.set(key, new Set());
+      const others = linked.get(key)!;
+      keys.filter((other) => other !== key).forEach((o) => others.add(o));
+      if (others.size > MAX_LINKED_IDENTIFIERS) {
+        shared.add(key);
+        linked.delete(key);
+      }
+    });
+  });
+  return shared;
+}
+
+/**
+ * Union-find over identifiers. The root of each set is the identifier that
+ * precedes all others in it, so person ids don't depend on load order.
+ */
+function createIdentityGraph() {
+  const parent = new Map<string, string>();
+
+  const find = (key: string): string => {
+    if (!parent.has(key)) parent.set(key, key);
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Point the whole path at the root
+    let node = key;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    if (precedes(rootA, rootB)) parent.set(rootB, rootA);
+    else parent.set(rootA, rootB);
+  };
+
+  return { find, union };
+}
+
+/**
+ * Join the identifiers that appear together on a record into people, and
+ * give every session, lead, contact and transaction the id of its person.
+ * Sessions link their mcid to their userPseudoId, and leads and contacts
+ * their mcId to their googleClientId; transactions only carry an mcId. A
+ * person is named after their smallest mcId, or their smallest client id
+ * without one, e.g. "mcId:1042". Placeholder identifiers and identifiers
+ * seen with more than MAX_LINKED_IDENTIFIERS others are shared by many
+ * clients, so nothing is joined through them. Records without any other
+ * identifier get an empty person id.
+ * @param data Loaded data
+ * @returns Data with person ids
+ */
+export function resolveIdentities(data: DataSet): DataSet {
+  const shared = findSharedIdentifiers([
+    ...data.sessions,
+    ...data.leads,
+    ...data.contacts,
+    ...data.transactions,
+  ]);
+  const usableIdentifiers = (record: IdentifiedRecord) =>
+    getIdentifiers(record).filter((key) => !shared.has(key));
+
+  const graph = createIdentityGraph();
+  const link = (record: IdentifiedRecord) => {
+    const keys = usableIdentifiers(record);
+    keys.forEach((key) => graph.union(keys[0], key));
+  };
+  data.sessions.forEach(link);
+  data.leads.forEach(link);
+  data.contacts.forEach(link);
+  data.transactions.forEach(link);
+
+  const withPerson = <T extends IdentifiedRecord>(record: T): T => {
+    const [key] = usableIdentifiers(record);
+    return { ...record, personId: key ? graph.find(key) : "" };
+  };
+
+  return {
+    ...data,
+    sessions: data.sessions.map(withPerson),
+    leads: data.leads.map(withPerson),
+    contacts: data.contacts.map(withPerson),
+    transactions: data.transactions.map(withPerson),
+  };
+}
+
+/**
+ * Person of a record, or its own first identifier when identities haven't
+ * been resolved
+ * @param record Session, lead, contact or transaction
+ * @returns Person id, empty if the record has no identifier
+ */
+export function getPersonId(record: IdentifiedRecord): string {
+  return record.personId ?? getIdentifiers(record)[0] ?? "";
+}
+
+/**
+ * People of a list of records, leaving out records that belong to no person
+ * @param records Sessions, leads, contacts or transactions
+ * @returns Distinct person ids
+ */
+export function getPeople(records: IdentifiedRecord[]): Set<string> {
+  return new Set(records.map(getPersonId).filter((person) => person !== ""));
+}
+
+/**
+ * Measure how well identifiers join up into people: how many identifiers
+ * each person was joined from, how many identifiers were shared by many
+ * clients, and which share of the people with leads, contacts and payments
+ * can be traced back to a session
+ * @param data Data with resolved person ids
+ * @returns Identity coverage for the daily brief
+ */
+export function measureIdentityCoverage(data: DataSet): IdentityCoverage {
+  const records: IdentifiedRecord[] = [
+    ...data.sessions,
+    ...data.leads,
+    ...data.contacts,
+    ...data.transactions,
+  ];
+  const shared = findSharedIdentifiers(records);
+
+  const identifiers = new Map<string, Set<string>>();
+  let unidentifiedRecords = 0;
+  records.forEach((record) => {
+    const person = getPersonId(record);
+    if (!person) {
+      unidentifiedRecords++;
+      return;
+    }
+    if (!identifiers.has(person)) identifiers.set(person, new Set());
+    getIdentifiers(record)
+      .filter((key) => !shared.has(key))
+      .forEach((key) => identifiers.get(person)!.add(key));
+  });
+
+  const allIdentifiers = new Set(
+    [...identifiers.values()].flatMap((keys) => [...keys])
+  );
+  const countOf = (type: IdentifierType) =>
+    [...allIdentifiers].filter((key) => key.startsWith(`${type}:`)).length;
+  const sizes = [...identifiers.values()].map((keys) => keys.size);
+
+  const sessionPeople = getPeople(data.sessions);
+  const stagePeople: Record<IdentityStage, Set<string>> = {
+    leads: getPeople(data.leads),
+    contacts: getPeople(data.contacts),
+    payers: getPeople(data.transactions),
+  };
+  const stages: IdentityStageCoverage[] = (
+    Object.keys(stagePeople) as IdentityStage[]
+  ).map((stage) => {
+    const people = stagePeople[stage];
+    const withSession = [...people].filter((p) => sessionPeople.has(p)).length;
+    return {
+      stage,
+      people: people.size,
+      withSession,
+      coverage: people.size > 0 ? (withSession / people.size) * 100 : null,
+    };
+  });
+
+  const coverage: Omit<IdentityCoverage, "insights"> = {
+    people: identifiers.size,
+    mcIds: countOf("mcId"),
+    clientIds: countOf("clientId"),
+    mergedPeople: sizes.filter((size) => size > 1).length,
+    maxIdentifiersPerPerson: sizes.reduce(
+      (max, size) => Math.max(max, size),
+      0
+    ),
+    sessionPeople: sessionPeople.size,
+    sharedIdentifiers: shared.size,
+    unidentifiedRecords,
+    stages,
+  };
+
+  return {
+    ...coverage,
+    insights: generateIdentityInsights(coverage),
+  };
+}
+
+/**
+ * Describe how identifiers resolved into people and how far back each
+ * stage's people can be traced
+ */
+function generateIdentityInsights(
+  coverage: Omit<IdentityCoverage, "insights">
+): string[] {
+  const insights: string[] = [
+    `${coverage.mcIds + coverage.clientIds} identifiers (${
+      coverage.mcIds
+    } mcIds, ${coverage.clientIds} client ids) resolve to ${
+      coverage.people
+    } people; ${
+      coverage.mergedPeople
+    } were joined from more than one identifier`,
+  ];
+
+  if (coverage.sessionPeople === 0) {
+    insights.push(
+      "No sessions loaded, so no lead, contact or payer can be traced back to a session"
+    );
+    return insights;
+  }
+
+  coverage.stages
+    .filter((s) => s.coverage !== null)
+    .forEach((s) => {
+      insights.push(
+        `${s.coverage!.toFixed(1)}% of ${s.stage} (${s.withSession} of ${
+          s.people
+        }) can be traced back to a session`
+      );
+    });
+
+  return insights;
+}
+
+/**
+ * Turn identity coverage into data quality issues and suggestions
+ * @param coverage Identity coverage
+ * @returns Issues for payers that can't be traced to sessions and for
+ * identifiers shared by many clients
+ */
+export function checkIdentityCoverage(coverage: IdentityCoverage) {
+  const issues: string[] = [];
+  const suggestions: string[] = [];
+
+  const payers = coverage.stages.find((s) => s.stage === "payers");
+  if (
+    coverage.sessionPeople > 0 &&
+    payers &&
+    payers.coverage !== null &&
+    payers.coverage < MIN_PAYER_SESSION_COVERAGE
+  ) {
+    issues.push(
+      `Only ${payers.coverage.toFixed(1)}% of payers (${
+        payers.withSession
+      } of ${payers.people}) can be traced back to a session`
+    );
+    suggestions.push(
+      "Send the mcId to analytics with every session, or store the Google client id on leads and contacts, so payments can be joined to sessions"
+    );
+  }
+
+  if (coverage.sharedIdentifiers > 0) {
+    issues.push(
+      `${coverage.sharedIdentifiers} identifiers are placeholders or appear with more than ${MAX_LINKED_IDENTIFIERS} others, so no people were joined through them`
+    );
+    suggestions.push(
+      "Blank out placeholder mcIds and client ids at the source, and store each client's own ids instead, so their records can be joined into people"
+    );
+  }
+
+  if (coverage.unidentifiedRecords > 0) {
+    issues.push(
+      `${coverage.unidentifiedRecords} records have no mcId or client id that names a single client and belong to no person`
+    );
+  }
+
+  return { issues, suggestions };
+}
@@ -0,0 +1,330 @@
+import { DataSet, MetricAggregation, MetricDefinition } from "../types";
+import { extractDatePart } from "../utils/date-utils";
+import { getPersonId } from "./identity-resolution";
+
+// Records of a period that metrics are aggregated over
+export type MetricPeriodData = Pick<
+  DataSet,
+  "sessions" | "leads" | "contacts" | "transactions" | "sourceData"
+>;
+
+export type MetricTotals = Record<MetricAggregation, number>;
+
+// Names of the totals in reasons and descriptions
+export const AGGREGATION_LABELS: Record<MetricAggregation, string> = {
+  revenue: "revenue",
+  firstPaymentRevenue: "first-payment revenue",
+  spend: "spend",
+  clicks: "clicks",
+  impressions: "impressions",
+  sessions: "sessions",
+  leads: "leads",
+  contacts: "contacts",
+  transactions: "transactions",
+  newCustomers: "new customers",
+};
+
+// Every metric the daily brief can report, in reporting order
+export const METRIC_REGISTRY: MetricDefinition[] = [
+  {
+    id: "roas",
+    name: "ROAS",
+    description: "Revenue per unit of ad spend",
+    numerator: "revenue",
+    denominator: "spend",
+    scale: 1,
+    direction: "higher_is_better",
+    format: "number",
+    significance: "bootstrap",
+  },
+  {
+    id: "cac",
+    name: "CAC",
+    description: "Ad spend per new paying customer",
+    numerator: "spend",
+    denominator: "newCustomers",
+    scale: 1,
+    direction: "lower_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "cpc",
+    name: "CPC",
+    description: "Ad spend per click",
+    numerator: "spend",
+    denominator: "clicks",
+    scale: 1,
+    direction: "lower_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "ctr",
+    name: "CTR",
+    description: "Clicks per impression",
+    numerator: "clicks",
+    denominator: "impressions",
+    scale: 100,
+    direction: "higher_is_better",
+    format: "percent",
+    significance: "two_proportion",
+  },
+  {
+    id: "cpm",
+    name: "CPM",
+    description: "Ad spend per thousand impressions",
+    numerator: "spend",
+    denominator: "impressions",
+    scale: 1000,
+    direction: "lower_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "cpl",
+    name: "CPL",
+    description: "Ad spend per lead",
+    numerator: "spend",
+    denominator: "leads",
+    scale: 1,
+    direction: "lower_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "cost_per_contact",
+    name: "Cost per contact",
+    description: "Ad spend per contact",
+    numerator: "spend",
+    denominator: "contacts",
+    scale: 1,
+    direction: "lower_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "aov",
+    name: "AOV",
+    description: "Revenue per transaction",
+    numerator: "revenue",
+    denominator: "transactions",
+    scale: 1,
+    direction: "higher_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "revenue_per_session",
+    name: "Revenue per session",
+    description: "Revenue per website session",
+    numerator: "revenue",
+    denominator: "sessions",
+    scale: 1,
+    direction: "higher_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+  {
+    id: "conversion_value",
+    name: "Conversion value",
+    description: "Revenue of first payments per new paying customer",
+    numerator: "firstPaymentRevenue",
+    denominator: "newCustomers",
+    scale: 1,
+    direction: "higher_is_better",
+    format: "currency",
+    significance: "bootstrap",
+  },
+];
+
+/**
+ * Look up the definitions of the configured metrics
+ * @param ids Metric ids, in reporting order; all metrics if empty
+ * @returns Metric definitions
+ */
+export function getMetricDefinitions(ids: string[]): MetricDefinition[] {
+  if (ids.length === 0) return METRIC_REGISTRY;
+
+  return ids.map((id) => {
+    const definition = METRIC_REGISTRY.find((m) => m.id === id);
+    if (!definition) {
+      throw new Error(
+        `Unknown metric: ${id}. Available metrics: ${METRIC_REGISTRY.map(
+          (m) => m.id
+        ).join(", ")}`
+      );
+    }
+    return definition;
+  });
+}
+
+// Totals of a period without any records
+function emptyTotals(): MetricTotals {
+  return {
+    revenue: 0,
+    firstPaymentRevenue: 0,
+    spend: 0,
+    clicks: 0,
+    impressions: 0,
+    sessions: 0,
+    leads: 0,
+    contacts: 0,
+    transactions: 0,
+    newCustomers: 0,
+  };
+}
+
+/**
+ * Sum the records of a period into metric totals, grouped by a key of each
+ * record's date and atom id (undefined for sessions, which have no atom).
+ * Records whose key is undefined are left out.
+ */
+function groupTotals(
+  data: MetricPeriodData,
+  groupOf: (date: string, atomId?: string) => string | undefined
+): Map<string, MetricTotals> {
+  const groups = new Map<
+    string,
+    { totals: MetricTotals; customers: Set<string> }
+  >();
+  // Totals of records without a group, discarded
+  const ungrouped = { totals: emptyTotals(), customers: new Set<string>() };
+  const groupFor = (date: string, atomId?: string) => {
+    const key = groupOf(date, atomId);
+    if (key === undefined) return ungrouped;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        totals: emptyTotals(),
+        customers: new Set(),
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  data.transactions.forEach((tx) => {
+    const group = groupFor(tx.paymentDatetimeShifted, tx.atomid);
+    group.totals.revenue += tx.paidSumOriginalCurrency;
+    group.totals.transactions++;
+    if (tx.ch_isFirstClientPaid) {
+      group.totals.firstPaymentRevenue += tx.paidSumOriginalCurrency;
+      const person = getPersonId(tx);
+      if (person) group.customers.add(person);
+    }
+  });
+  data.sourceData.forEach((sd) => {
+    const { totals } = groupFor(sd.date, sd.atomId);
+    totals.spend += sd.budgetSpent;
+    totals.clicks += sd.clicks;
+    totals.impressions += sd.shows;
+  });
+  data.sessions.forEach((session) => {
+    groupFor(session.datetimeShifted).totals.sessions++;
+  });
+  data.leads.forEach((lead) => {
+    groupFor(lead.datetimeCreatedShifted, lead.atomid).totals.leads++;
+  });
+  data.contacts.forEach((contact) => {
+    groupFor(contact.datetimeCreatedShifted, contact.atomid).totals.contacts++;
+  });
+
+  return new Map(
+    [...groups.entries()].map(([key, { totals, customers }]) => [
+      key,
+      { ...totals, newCustomers: customers.size },
+    ])
+  );
+}
+
+/**
+ * Sum the records of a period into metric totals. New customers are counted
+ * once over the whole period.
+ * @param data Records of the period
+ * @returns Period totals
+ */
+export function aggregatePeriod(data: MetricPeriodData): MetricTotals {
+  return groupTotals(data, () => "period").get("period") || emptyTotals();
+}
+
+/**
+ * Split the records of a period into daily totals, so ratio metrics can be
+ * bootstrapped by resampling days
+ * @param data Records of the period
+ * @returns One set of totals per day with any records
+ */
+export function aggregateDays(data: MetricPeriodData): MetricTotals[] {
+  return [...groupTotals(data, extractDatePart).values()];
+}
+
+/**
+ * Split the records of a period into totals per atom and day, with every
+ * session a unit of its own, so ratio metrics of a period with fewer than two
+ * days can still be bootstrapped by resampling the records within a day
+ * @param data Records of the period
+ * @returns One set of totals per atom and day, and one per session
+ */
+export function aggregateAtomDays(data: MetricPeriodData): MetricTotals[] {
+  let sessions = 0;
+  return [
+    ...groupTotals(data, (date, atomId) =>
+      atomId === undefined
+        ? `session ${sessions++}`
+        : `${extractDatePart(date)} ${atomId}`
+    ).values(),
+  ];
+}
+
+/**
+ * Sum the records of a period into totals per segment of atoms. Sessions
+ * have no atom, so segment totals never include sessions.
+ * @param data Records of the period
+ * @param segmentOf Segment of an atom id
+ * @returns Totals keyed by segment
+ */
+export function aggregateSegments(
+  data: MetricPeriodData,
+  segmentOf: (atomId: string) => string
+): Map<string, MetricTotals> {
+  return groupTotals(data, (_, atomId) =>
+    atomId === undefined ? undefined : segmentOf(atomId)
+  );
+}
+
+/**
+ * Compute a metric from period totals
+ * @param definition Metric definition
+ * @param totals Period totals
+ * @returns Metric value, 0 if its denominator is zero
+ */
+export function computeMetric(
+  definition: MetricDefinition,
+  totals: MetricTotals
+): number {
+  const denominator = totals[definition.denominator];
+  if (denominator === 0) return 0;
+
+  return (totals[definition.numerator] / denominator) * definition.scale;
+}
+
+/**
+ * Format a metric value for prompts and the console
+ * @param definition Metric definition
+ * @param value Metric value
+ * @param currency Reporting currency of amounts
+ */
+export function formatMetricValue(
+  definition: Pick<MetricDefinition, "format">,
+  value: number,
+  currency: string
+): string {
+  switch (definition.format) {
+    case "currency":
+      return `${value.toFixed(2)} ${currency}`;
+    case "percent":
+      return `${value.toFixed(2)}%`;
+    case "number":
+      return value.toFixed(2);
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  Atom,
+  AtomDimension,
+  MetricDecomposition,
+  MetricDefinition,
+  SegmentEffect,
+} from "../types";
+import {
+  aggregateSegments,
+  AGGREGATION_LABELS,
+  formatMetricValue,
+  MetricPeriodData,
+} from "./metric-registry";
+import { getAtomDimensionValue } from "./drill-down";
+
+// Atom dimensions metric changes are decomposed over, broadest first
+export const DECOMPOSITION_DIMENSIONS: AtomDimension[] = [
+  "sourceGroupName",
+  "campaignId",
+];
+
+// Segments kept per dimension in the decomposition
+const TOP_SEGMENTS = 5;
+
+// Segments quoted in reasons per dimension
+const REASON_SEGMENTS: Partial<Record<AtomDimension, number>> = {
+  sourceGroupName: 3,
+  campaignId: 2,
+};
+
+// Plural names of the segments of each dimension in reasons
+const DIMENSION_LABELS: Partial<Record<AtomDimension, string>> = {
+  sourceGroupName: "channels",
+  campaignId: "campaigns",
+};
+
+/**
+ * Decompose the change of a ratio metric over the segments of each
+ * decomposition dimension. The metric is the sum over segments of the
+ * segment's share of the denominator times the metric within the segment,
+ * so its change splits exactly into a mix effect (shares moving between
+ * segments, valued at the average rate) and a rate effect (rates moving
+ * within segments, weighted by the average share). Numerator on a segment
+ * without any denominator in a period, such as revenue without tracked
+ * spend, isn't driven by shares or rates and counts as unattributed; the
+ * rest of the change of a segment that started or stopped counts as mix.
+ * @param definition Metric definition
+ * @param current Records of the current period
+ * @param previous Records of the previous period
+ * @param atoms Atoms, with the dimension values of each atom id
+ * @returns One decomposition per dimension, or none if the metric's totals
+ * can't be split by atom
+ */
+export function decomposeMetricChange(
+  definition: MetricDefinition,
+  current: MetricPeriodData,
+  previous: MetricPeriodData,
+  atoms: Atom[]
+): MetricDecomposition[] {
+  const { numerator, denominator, scale } = definition;
+  // Sessions have no atom
+  if (numerator === "sessions" || denominator === "sessions") return [];
+
+  const atomById = new Map(atoms.map((atom) => [atom.atomId, atom]));
+
+  return DECOMPOSITION_DIMENSIONS.map((dimension) => {
+    const segmentOf = (atomId: string) =>
+      getAtomDimensionValue(atomById.get(atomId), dimension);
+    const currentSegments = aggregateSegments(current, segmentOf);
+    const previousSegments = aggregateSegments(previous, segmentOf);
+
+    const totalOf = (segments: typeof currentSegments) =>
+      [...segments.values()].reduce((sum, t) => sum + t[denominator], 0);
+    const currentTotal = totalOf(currentSegments);
+    const previousTotal = totalOf(previousSegments);
+
+    const names = [
+      ...new Set([...currentSegments.keys(), ...previousSegments.keys()]),
+    ];
+    const segments: SegmentEffect[] = names.map((segment) => {
+      const periodOf = (
+        totalsBySegment: typeof currentSegments,
+        total: number
+      ) => {
+        const totals = totalsBySegment.get(segment);
+        const n = totals?.[numerator] || 0;
+        const d = totals?.[denominator] || 0;
+        return {
+          share: total > 0 ? d / total : 0,
+          rate: d > 0 ? (n / d) * scale : null,
+          contribution: total > 0 ? (n / total) * scale : 0,
+        };
+      };
+      const now = periodOf(currentSegments, currentTotal);
+      const before = periodOf(previousSegments, previousTotal);
+
+      let mixEffect: number;
+      let rateEffect: number;
+      let unattributedEffect = 0;
+      if (now.rate === null || before.rate === null) {
+        // Numerator without a denominator is unattributed, and the
+        // denominator arriving or leaving is mix
+        unattributedEffect =
+          (now.rate === null ? now.contribution : 0) -
+          (before.rate === null ? before.contribution : 0);
+        mixEffect = now.contribution - before.contribution - unattributedEffect;
+        rateEffect = 0;
+      } else {
+        mixEffect = (now.share - before.share) * ((now.rate + before.rate) / 2);
+        rateEffect =
+          (now.rate - before.rate) * ((now.share + before.share) / 2);
+      }
+
+      return {
+        segment,
+        previousShare: before.share,
+        currentShare: now.share,
+        previousRate: before.rate,
+        currentRate: now.rate,
+        mixEffect,
+        rateEffect,
+        unattributedEffect,
+        totalEffect: mixEffect + rateEffect + unattributedEffect,
+      };
+    });
+
+    return {
+      dimension,
+      mixEffect: segments.reduce((sum, s) => sum + s.mixEffect, 0),
+      rateEffect: segments.reduce((sum, s) => sum + s.rateEffect, 0),
+      unattributedEffect: segments.reduce(
+        (sum, s) => sum + s.unattributedEffect,
+        0
+      ),
+      segments: segments
+        .filter((s) => s.totalEffect !== 0)
+        .sort((a, b) => Math.abs(b.totalEffect) - Math.abs(a.totalEffect))
+        .slice(0, TOP_SEGMENTS),
+    };
+  });
+}
+
+/**
+ * Explain the change of a metric from its decomposition, quoting the
+ * overall mix, rate and unattributed effects and the segments that
+ * contributed the most
+ * @param definition Metric definition
+ * @param decomposition Decomposition of the metric's change per dimension
+ * @param current Current value of the metric
+ * @param previous Previous value of the metric
+ * @param currency Reporting currency of amounts
+ * @returns Reasons for the change, largest contributors first
+ */
+export function explainMetricChange(
+  definition: MetricDefinition,
+  decomposition: MetricDecomposition[],
+  current: number,
+  previous: number,
+  currency: string
+): string[] {
+  const format = (value: number) =>
+    formatMetricValue(definition, value, currency);
+  const signed = (value: number) =>
+    `${value >= 0 ? "+" : "-"}${format(Math.abs(value))}`;
+  const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+  const numeratorLabel = AGGREGATION_LABELS[definition.numerator];
+  const denominatorLabel = AGGREGATION_LABELS[definition.denominator];
+
+  if (decomposition.length === 0) {
+    return [
+      `${definition.name} went from ${format(previous)} to ${format(
+        current
+      )}; it can't be split by channel because ${denominatorLabel} and ${numeratorLabel} aren't both tracked per atom`,
+    ];
+  }
+
+  const reasons: string[] = [];
+  decomposition.forEach((d, i) => {
+    const label = DIMENSION_LABELS[d.dimension] || d.dimension;
+
+    // The overall split is the same story for every dimension, so quote it once
+    if (i === 0) {
+      const unattributed =
+        d.unattributedEffect !== 0
+          ? ` and ${signed(
+              d.unattributedEffect
+            )} from ${numeratorLabel} without any ${denominatorLabel} (unattributed)`
+          : "";
+      reasons.push(
+        `${definition.name} went from ${format(previous)} to ${format(
+          current
+        )}: ${signed(
+          d.mixEffect
+        )} from ${denominatorLabel} shifting between ${label} (mix), ${signed(
+          d.rateEffect
+        )} from changes within ${label} (rate)${unattributed}`
+      );
+    }
+
+    d.segments.slice(0, REASON_SEGMENTS[d.dimension] || 1).forEach((s) => {
+      if (s.previousRate === null && s.currentRate === null) {
+        reasons.push(
+          `${
+            s.segment
+          } has ${numeratorLabel} but no ${denominatorLabel}, moving ${
+            definition.name
+          } by ${signed(s.totalEffect)} (unattributed)`
+        );
+        return;
+      }
+
+      const rates =
+        s.previousRate !== null && s.currentRate !== null
+          ? `${definition.name} ${format(s.previousRate)} to ${format(
+              s.currentRate
+            )}`
+          : s.currentRate !== null
+          ? `no ${denominatorLabel} before, ${definition.name} now ${format(
+              s.currentRate
+            )}`
+          : `no ${denominatorLabel} now, ${definition.name} was ${format(
+              s.previousRate!
+            )}`;
+      reasons.push(
+        `${s.segment} (${label}): share of ${denominatorLabel} ${percent(
+          s.previousShare
+        )} to ${percent(s.currentShare)}, ${rates}; ${signed(
+          s.totalEffect
+        )} overall (mix ${signed(s.mixEffect)}, rate ${signed(s.rateEffect)}${
+          s.unattributedEffect !== 0
+            ? `, unattributed ${signed(s.unattributedEffect)}`
+            : ""
+        })`
+      );
+    });
+  });
+
+  return reasons;
+}
@@ -0,0 +1,149 @@
+import { DailyMetric, DailySeries, DataSet, DateRange } from "../types";
+import { addDays, extractDatePart } from "../utils/date-utils";
+import { getPersonId } from "./identity-resolution";
+
+// Records of one dataset contributing to each metric's daily value. Spend
+// arrives as a daily export with a row per atom, so a day without rows is a
+// missing export; leads, contacts and payments are events, and a day
+// without any is a day with none.
+const METRIC_SOURCES: {
+  metric: DailyMetric;
+  records: (data: DataSet) => { date: string; value: number; key?: string }[];
+  dailyExport?: boolean;
+}[] = [
+  {
+    metric: "spend",
+    records: (data) =>
+      data.sourceData.map((sd) => ({ date: sd.date, value: sd.budgetSpent })),
+    dailyExport: true,
+  },
+  {
+    metric: "clicks",
+    records: (data) =>
+      data.sourceData.map((sd) => ({ date: sd.date, value: sd.clicks })),
+    dailyExport: true,
+  },
+  {
+    metric: "impressions",
+    records: (data) =>
+      data.sourceData.map((sd) => ({ date: sd.date, value: sd.shows })),
+    dailyExport: true,
+  },
+  {
+    metric: "revenue",
+    records: (data) =>
+      data.transactions.map((tx) => ({
+        date: tx.paymentDatetimeShifted,
+        value: tx.paidSumOriginalCurrency,
+      })),
+  },
+  {
+    metric: "leads",
+    records: (data) =>
+      data.leads.map((lead) => ({
+        date: lead.datetimeCreatedShifted,
+        value: 1,
+      })),
+  },
+  {
+    metric: "contacts",
+    records: (data) =>
+      data.contacts.map((contact) => ({
+        date: contact.datetimeCreatedShifted,
+        value: 1,
+      })),
+  },
+  {
+    // First-time payers, counted once per day; payers without a person
+    // can't be told apart and aren't counted
+    metric: "newCustomers",
+    records: (data) =>
+      data.transactions.map((tx) => {
+        const person = getPersonId(tx);
+        return tx.ch_isFirstClientPaid && person
+          ? { date: tx.paymentDatetimeShifted, value: 1, key: person }
+          : { date: tx.paymentDatetimeShifted, value: 0 };
+      }),
+  },
+];
+
+/**
+ * Build a daily series of every KPI over a period. Each series starts on the
+ * first day its dataset has a record. Later days without rows are gaps with
+ * a null value for metrics of a daily export, since a missing export isn't
+ * a day without spend, and zero for event counts and revenue.
+ * @param data Loaded dataset
+ * @param period Days to include (start inclusive, end exclusive)
+ * @returns One series per metric
+ */
+export function buildDailySeries(
+  data: DataSet,
+  period: DateRange
+): DailySeries[] {
+  return METRIC_SOURCES.map(({ metric, records, dailyExport }) => {
+    const totals = new Map<string, number>();
+    const seenKeys = new Set<string>();
+
+    records(data).forEach(({ date, value, key }) => {
+      const day = extractDatePart(date);
+      if (day < period.startDate || day >= period.endDate) return;
+
+      if (key !== undefined) {
+        if (seenKeys.has(`${day}:${key}`)) return;
+        seenKeys.add(`${day}:${key}`);
+      }
+      totals.set(day, (totals.get(day) || 0) + value);
+    });
+
+    const firstDay = [...totals.keys()].sort()[0];
+    const points: DailySeries["points"] = [];
+    if (firstDay) {
+      for (let day = firstDay; day < period.endDate; day = addDays(day, 1)) {
+        const missing = dailyExport ? null : 0;
+        points.push({ date: day, value: totals.get(day) ?? missing });
+      }
+    }
+
+    return { metric, points };
+  });
+}
+
+/**
+ * Days of a series without records within a period
+ * @param series Daily series of one metric
+ * @param period Days to look at (start inclusive, end exclusive)
+ * @returns Missing dates, oldest first
+ */
+export function getMissingDates(
+  series: DailySeries,
+  period: DateRange
+): string[] {
+  return series.points
+    .filter(
+      (p) =>
+        p.value === null &&
+        p.date >= period.startDate &&
+        p.date < period.endDate
+    )
+    .map((p) => p.date);
+}
+
+/**
+ * Group metrics that miss the same days, so metrics from one dataset are
+ * reported together
+ * @param missing Missing dates of each metric
+ * @returns One group per distinct list of missing dates
+ */
+export function groupMissingDates(
+  missing: { metric: DailyMetric; dates: string[] }[]
+): { metrics: DailyMetric[]; dates: string[] }[] {
+  const groups = new Map<string, { metrics: DailyMetric[]; dates: string[] }>();
+  missing
+    .filter(({ dates }) => dates.length > 0)
+    .forEach(({ metric, dates }) => {
+      const key = dates.join(",");
+      if (!groups.has(key)) groups.set(key, { metrics: [], dates });
+      groups.get(key)!.metrics.push(metric);
+    });
+  return [...groups.values()];
+}
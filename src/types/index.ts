@@ -16,6 +16,7 @@ export interface Session {
   geoCity: string;
   geoSubContinent?: string;
   geoMetro?: string;
+  personId?: string; // resolved across client ids once loaded
 }
 
 export interface Lead {
@@ -25,6 +26,8 @@ export interface Lead {
   datetimeCreatedShifted: string;
   googleClientId: string;
   ch_isFirst4ContactAttribution: boolean;
+  cohortDate?: string; // acquisition cohort date (YYYY-MM-DD)
+  personId?: string; // resolved across client ids once loaded
 }
 
 export interface Contact {
@@ -36,6 +39,8 @@ export interface Contact {
   entityCreatedWith: string;
   ch_isFirst4ContactAttribution: boolean;
   ch_isFirst: boolean;
+  cohortDate?: string; // acquisition cohort date (YYYY-MM-DD)
+  personId?: string; // resolved across client ids once loaded
 }
 
 export interface Contact2Lead {
@@ -48,16 +53,20 @@ export interface Transaction {
   atomid: string; // source ID
   mcId: string; // client ID
   paymentDatetimeShifted: string;
-  paidSumOriginalCurrency: number;
+  paidSumOriginalCurrency: number; // in the reporting currency once loaded
+  currency?: string; // ISO code of the payment currency, if not the reporting currency
   ch_isFirstClientPaid: boolean;
+  cohortDate?: string; // acquisition cohort date of the paying client (YYYY-MM-DD)
+  personId?: string; // resolved across client ids once loaded
 }
 
 export interface SourceData {
   date: string;
   atomId: string;
   shows: number;
-  budgetSpent: number;
+  budgetSpent: number; // in the reporting currency once loaded
   clicks: number;
+  currency?: string; // ISO code of the spend currency, falls back to the atom's
 }
 
 export interface Atom {
@@ -70,41 +79,454 @@ export interface Atom {
   campaignId?: string;
   adsetId?: string;
   adId?: string;
+  currency?: string; // ISO code of the atom's spend currency
+}
+
+// Value of one unit of a currency in another currency on a date
+export interface ExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// Conversion of revenue and spend into the reporting currency
+export interface CurrencyConversionReport {
+  reportingCurrency: string;
+  convertedTransactions: number;
+  convertedSpendRows: number;
+  // Amounts left out of revenue and spend because no rate was known on or
+  // before their date
+  missingRates: {
+    dataset: "transactions" | "sourceData";
+    currency: string;
+    firstDate: string;
+    lastDate: string;
+    rows: number;
+    amount: number; // in the original currency
+  }[];
+}
+
+// A complete set of marketing data for one prefix (e.g. "test" or "control")
+export interface DataSet {
+  sessions: Session[];
+  leads: Lead[];
+  contacts: Contact[];
+  contact2Leads: Contact2Lead[];
+  transactions: Transaction[];
+  sourceData: SourceData[];
+  atoms: Atom[];
+}
+
+export type DataSetName = keyof DataSet;
+
+// Record type of each dataset
+export type DataSetRecord = { [K in DataSetName]: DataSet[K][number] };
+
+// Range of dates, start inclusive and end exclusive, in YYYY-MM-DD format
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+// How the current period is chosen and what it is compared with
+export type ComparisonMode =
+  | "day_over_day" // the analysis date vs the day before
+  | "week_over_week" // the analysis date vs the same weekday a week before
+  | "rolling" // the last N days vs the N days before
+  | "month_to_date" // this month to date vs the same span of the previous month
+  | "custom"; // configured current and previous ranges
+
+// Current and previous periods compared by every period-over-period analysis
+export interface ComparisonWindows {
+  mode: ComparisonMode;
+  current: DateRange;
+  previous: DateRange;
+}
+
+// Outcome of loading one dataset through its schema
+export interface LoadReport {
+  dataset: DataSetName;
+  source: string; // file, directory or table the rows came from
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  outOfWindowRows: number; // valid rows dropped by the load date window
+  unparseableValueCount: number;
+  missingColumns: {
+    field: string;
+    column: string;
+    required: boolean;
+  }[];
+  // Samples are capped, the counts above cover every row
+  unparseableValues: {
+    row: number;
+    field: string;
+    column: string;
+    value: string;
+    expectedType: string;
+  }[];
+  rejectedRowSamples: {
+    row: number;
+    reasons: string[];
+  }[];
+}
+
+// Which of the records sharing a dedup key is kept, in load order
+export type DedupKeep = "first" | "last";
+
+// Repeated records removed from one dataset while loading
+export interface DedupReport {
+  dataset: DataSetName;
+  source: string; // file prefix of the loaded data
+  keys: string[]; // fields records were matched on, none if not deduplicated
+  keep: DedupKeep;
+  totalRows: number;
+  duplicateRows: number; // rows removed
+  duplicateKeys: number; // keys that appeared more than once
+  revenueAffected: number | null; // transactions only, reporting currency
+  spendAffected: number | null; // sourceData only, reporting currency
+  sampleKeys: string[]; // capped, values joined with "+"
+}
+
+// Funnel stage whose people are traced back to a session
+export type IdentityStage = "leads" | "contacts" | "payers";
+
+export interface IdentityStageCoverage {
+  stage: IdentityStage;
+  people: number;
+  withSession: number; // people who also have a session
+  coverage: number | null; // percent, null without people
+}
+
+// How well client ids join up into people across datasets
+export interface IdentityCoverage {
+  people: number;
+  mcIds: number;
+  clientIds: number; // Google client ids (userPseudoId, googleClientId)
+  mergedPeople: number; // people joined from more than one identifier
+  maxIdentifiersPerPerson: number;
+  sessionPeople: number; // people with at least one session
+  // Placeholder identifiers and identifiers seen with too many others, which
+  // people aren't joined through
+  sharedIdentifiers: number;
+  // Records without an mcId or client id that names a single client
+  unidentifiedRecords: number;
+  stages: IdentityStageCoverage[];
+  insights: string[];
+}
+
+// Datasets whose records reference an atom
+export type AtomReferencingDataset =
+  | "leads"
+  | "contacts"
+  | "transactions"
+  | "sourceData";
+
+export type AtomIntegrityIssueKind =
+  | "orphan_atom" // atom id missing from Atoms
+  | "placeholder_atom" // results on a placeholder or unknown atom
+  | "spend_without_metadata" // spend on a missing or placeholder atom
+  | "metadata_without_spend" // paid atom with results but no spend
+  | "idle_paid_atom"; // paid atom with neither spend nor results
+
+export interface AtomIntegrityIssue {
+  kind: AtomIntegrityIssueKind;
+  dataset: AtomReferencingDataset | "atoms";
+  atoms: number; // distinct atom ids affected
+  rows: number;
+  revenue: number; // reporting currency
+  conversions: number; // transactions
+  spend: number; // reporting currency
+  sampleAtomIds: string[]; // capped
+  message: string;
+}
+
+// How the atom ids of leads, contacts, transactions and spend resolve in Atoms
+export interface AtomIntegrityReport {
+  atoms: number;
+  placeholderAtoms: number; // negative ids or unknown sources
+  paidAtomsWithoutSpend: number; // including those without any results
+  revenue: { total: number; orphan: number; placeholder: number };
+  conversions: { total: number; orphan: number; placeholder: number };
+  issues: AtomIntegrityIssue[];
+}
+
+// A loaded dataset together with one load report per dataset
+export interface LoadedDataSet {
+  dataSet: DataSet;
+  reports: LoadReport[];
 }
 
 // Agent interfaces
 
+// Failed rules of severity "error" block the brief, "warn" ones are reported
+export type DataQualitySeverity = "warn" | "error";
+
+export type DataQualityRuleType =
+  | "null_rate"
+  | "allowed_values"
+  | "volume"
+  | "freshness"
+  | "join_coverage";
+
+interface DataQualityRuleBase {
+  id: string;
+  severity: DataQualitySeverity;
+  dataset: DataSetName;
+}
+
+// Data quality check, from the default rules or the rules file
+export type DataQualityRule = DataQualityRuleBase &
+  (
+    | {
+        type: "null_rate";
+        column: string;
+        maxRate: number; // percent of rows with an empty value
+      }
+    | {
+        type: "allowed_values";
+        column: string;
+        values: string[];
+        maxRate?: number; // percent of rows with another value, default 0
+      }
+    | {
+        // Rows on the analysis date, within bounds learned from the days
+        // before it; undated datasets are checked on their total rows
+        type: "volume";
+        lookbackDays?: number;
+        deviations?: number;
+        min?: number;
+        max?: number;
+      }
+    | {
+        type: "freshness";
+        maxAgeDays: number; // days from the latest record to the analysis date
+      }
+    | {
+        // Share of distinct values of a column found in a column of another dataset
+        type: "join_coverage";
+        column: string;
+        reference: DataSetName;
+        referenceColumn: string;
+        minRate: number; // percent
+      }
+  );
+
+// Outcome of one data quality rule, with the value it measured
+export interface DataQualityRuleOutcome {
+  ruleId: string;
+  type: DataQualityRuleType;
+  dataset: DataSetName;
+  severity: DataQualitySeverity;
+  passed: boolean;
+  // Null when there was nothing to measure, such as an empty dataset
+  measured: number | null;
+  unit: "percent" | "rows" | "days";
+  // Bounds the measured value had to stay within
+  expected: { min?: number; max?: number };
+  message: string;
+}
+
+// Whether the analysis date's data of a dataset or source has arrived
+export type FreshnessStatus = "fresh" | "missing" | "partial" | "zero_spend";
+
+// Freshness of a dated dataset, or of a source (atom source name) in SourceData
+export interface FreshnessEntry {
+  kind: "dataset" | "source";
+  name: string;
+  latestDate: string | null; // latest date on or before the analysis date
+  daysBehind: number | null; // days from latestDate to the analysis date
+  rows: number; // rows on the analysis date
+  typicalRows: number | null; // median rows of the days before with rows
+  completeness: number | null; // rows in percent of typicalRows
+  spend: number | null; // sources only
+  typicalSpend: number | null;
+  status: FreshnessStatus;
+  critical: boolean;
+}
+
+export interface DataFreshnessReport {
+  analysisDate: string;
+  entries: FreshnessEntry[];
+  // Critical datasets and sources that aren't fresh, which stop the analysis
+  staleCritical: string[];
+}
+
 export interface DataValidationResult {
+  // False when a blocking problem was found
   isValid: boolean;
+  // Blocking problems: failed "error" rules and stale critical sources
   issues: string[];
+  // Problems that don't stop the brief
+  warnings: string[];
   suggestions: string[];
+  ruleOutcomes: DataQualityRuleOutcome[];
+  freshness: DataFreshnessReport;
+  loadReports: LoadReport[];
+  dedupReports: DedupReport[];
+  identity: IdentityCoverage;
+  atomIntegrity: AtomIntegrityReport;
+  currencyConversion?: CurrencyConversionReport;
+}
+
+// Change of a metric from the previous to the current period, with its uncertainty
+export interface MetricChange {
+  current: number;
+  previous: number;
+  percentageChange: number;
+  // The confidence interval of the change excludes zero at the configured confidence level
+  isSignificant: boolean;
+  // False when there was too little data to test the change; pValue is then 1
+  tested: boolean;
+  pValue: number;
+  confidenceInterval: { lower: number; upper: number }; // on current - previous
+  relativeConfidenceInterval: { lower: number; upper: number }; // on percentageChange
+}
+
+// Totals of a period that metrics are computed from
+export type MetricAggregation =
+  | "revenue"
+  | "firstPaymentRevenue" // revenue of first-time payments
+  | "spend"
+  | "clicks"
+  | "impressions"
+  | "sessions"
+  | "leads"
+  | "contacts"
+  | "transactions"
+  | "newCustomers"; // unique first-time payers
+
+export type MetricDirection = "higher_is_better" | "lower_is_better";
+
+export type MetricFormat = "currency" | "percent" | "number";
+
+// How the change of a metric between periods is tested: bootstrap over daily
+// totals, or a two-proportion z-test for rates of counts
+export type MetricSignificanceMethod = "bootstrap" | "two_proportion";
+
+// A metric computed as the ratio of two period totals
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  description: string;
+  numerator: MetricAggregation;
+  denominator: MetricAggregation;
+  scale: number; // applied to the ratio, e.g. 100 for percentages or 1000 for CPM
+  direction: MetricDirection;
+  format: MetricFormat;
+  significance: MetricSignificanceMethod;
+}
+
+// Contribution of one segment to the change of a ratio metric, in metric units
+export interface SegmentEffect {
+  segment: string;
+  // Share of the metric's denominator, 0-1
+  previousShare: number;
+  currentShare: number;
+  // Metric within the segment, null without a denominator
+  previousRate: number | null;
+  currentRate: number | null;
+  mixEffect: number; // from the segment's share changing
+  rateEffect: number; // from the metric changing within the segment
+  unattributedEffect: number; // from numerator without any denominator
+  totalEffect: number;
+}
+
+// Change of a metric split into mix, rate and unattributed effects over the
+// segments of a dimension
+export interface MetricDecomposition {
+  dimension: AtomDimension;
+  mixEffect: number;
+  rateEffect: number;
+  unattributedEffect: number;
+  // Segments with the largest effects first
+  segments: SegmentEffect[];
+}
+
+export interface MetricResult extends MetricChange {
+  id: string;
+  name: string;
+  direction: MetricDirection;
+  format: MetricFormat;
+  // Significant changes in the better or worse direction
+  assessment: "improved" | "worsened" | "no_significant_change";
+  // Empty for metrics whose totals can't be split by atom
+  decomposition: MetricDecomposition[];
+  possibleReasons: string[];
 }
 
 export interface MetricsAnalysis {
-  roas: {
-    current: number;
-    previous: number;
-    percentageChange: number;
-    isSignificant: boolean;
-    possibleReasons: string[];
-  };
-  cac: {
-    current: number;
-    previous: number;
-    percentageChange: number;
-    isSignificant: boolean;
-    possibleReasons: string[];
-  };
+  metrics: MetricResult[];
+}
+
+// Entities that reached a funnel stage out of those that entered it
+export interface ConversionStageCounts {
+  converted: number;
+  total: number;
 }
 
+// How leads were matched to contacts: through the Contact2Lead link table, or
+// by resolved person when no links were loaded
+export type LeadContactLinkSource = "contact2Leads" | "person";
+
 export interface ConversionAnalysis {
-  stages: {
+  // Rates in percent; intervals on the change in percentage points
+  stages: (MetricChange & {
     name: string;
+    // False when nothing entered the stage in the current period, e.g. the
+    // visitor stages without sessions; its rate is then not a measurement
+    available: boolean;
+    currentCounts: ConversionStageCounts;
+    previousCounts: ConversionStageCounts;
+  })[];
+  // Contacts not linked to any lead, which are left out of "Lead to Contact"
+  unlinkedContacts: {
     current: number;
     previous: number;
-    percentageChange: number;
-    isSignificant: boolean;
-  }[];
+  };
+  linkSource: LeadContactLinkSource;
+  insights: string[];
+}
+
+// Steps of the funnel whose time to convert is measured, per client
+export type ConversionLagStage =
+  | "session_to_lead" // first session to first lead
+  | "lead_to_contact" // first lead to first contact
+  | "contact_to_payment"; // first contact to first payment
+
+// Time to convert of the clients who converted, in days
+export interface LagDistribution {
+  conversions: number;
+  medianDays: number | null;
+  p75Days: number | null;
+  p90Days: number | null;
+}
+
+// Conversion of the clients who entered a stage on one recent day
+export interface MaturingDay {
+  date: string;
+  entrants: number;
+  conversions: number; // converted by the analysis date
+  observedRate: number; // percent
+  // Share of eventual conversions expected to have arrived by the analysis
+  // date, from the lag distribution (0-1)
+  completeness: number;
+  // Observed rate scaled up by the conversions still to come, in percent
+  projectedRate: number | null;
+  maturing: boolean; // too young to read the observed rate as final
+}
+
+export interface StageConversionLag {
+  stage: ConversionLagStage;
+  name: string;
+  overall: LagDistribution;
+  channels: (LagDistribution & { channel: string })[];
+  recentDays: MaturingDay[];
+}
+
+export interface ConversionLagAnalysis {
+  stages: StageConversionLag[];
   insights: string[];
 }
 
@@ -121,6 +543,69 @@ export interface ChannelDistributionAnalysis {
     };
     change: number;
   }[];
+  // Sessions joined to a channel through their user ids, out of all sessions
+  sessionAttribution: {
+    current: { attributed: number; total: number };
+    previous: { attributed: number; total: number };
+  };
+  insights: string[];
+}
+
+export type ExperimentVerdict =
+  | "test_better"
+  | "control_better"
+  | "no_significant_difference"
+  | "insufficient_data";
+
+export interface ExperimentGroupMetrics {
+  group: "test" | "control";
+  spend: number;
+  revenue: number;
+  roas: number;
+  cac: number;
+  visitors: number;
+  leads: number;
+  contacts: number;
+  customers: number;
+}
+
+export interface ExperimentAnalysis {
+  period: DateRange;
+  confidenceLevel: number;
+  test: ExperimentGroupMetrics;
+  control: ExperimentGroupMetrics;
+  comparisons: {
+    metric: string;
+    method: "two_proportion_z_test" | "bootstrap";
+    higherIsBetter: boolean;
+    test: number;
+    control: number;
+    absoluteLift: number;
+    relativeLift: number; // percentage
+    absoluteLiftInterval: { lower: number; upper: number };
+    relativeLiftInterval: { lower: number; upper: number }; // percentages
+    pValue: number;
+    verdict: ExperimentVerdict;
+  }[];
+}
+
+export type CohortGranularity = "daily" | "weekly" | "monthly";
+
+export interface CohortAnalysis {
+  granularity: CohortGranularity;
+  ageCheckpoints: number[]; // days since cohort start
+  cohorts: {
+    cohort: string; // start date of the cohort period
+    cohortSize: number; // unique clients acquired in the cohort
+    spend: number; // ad spend during the cohort period
+    cells: {
+      daysSinceStart: number;
+      revenue: number; // revenue since the previous checkpoint
+      cumulativeRevenue: number;
+      payingCustomers: number; // cumulative unique paying clients
+      cumulativeRoas: number | null; // null when the cohort had no spend
+    }[]; // only checkpoints the cohort has reached by the analysis date
+  }[];
   insights: string[];
 }
 
@@ -135,12 +620,270 @@ export interface ReportingImprovements {
   automations: string[];
 }
 
+// Repeat purchases and lifetime value of the customers of one acquisition channel
+export interface CustomerValueSegment {
+  channel: string;
+  customers: number; // first paid in the period
+  repeatCustomers: number; // paid more than once
+  repeatPurchaseRate: number; // percent
+  averageDaysBetweenPurchases: number | null;
+  medianDaysBetweenPurchases: number | null;
+  // Cumulative revenue per customer by days since the first payment, over
+  // the customers whose first payment is at least that old
+  revenueByAge: {
+    days: number;
+    customers: number;
+    revenuePerCustomer: number | null;
+  }[];
+  spend: number;
+  cac: number | null;
+  ltv: number | null; // revenue per customer at the LTV horizon
+  ltvToCac: number | null;
+}
+
+export interface CustomerValueAnalysis {
+  ageCheckpoints: number[];
+  // Days since the first payment LTV is measured at, or null when no customer
+  // has reached the first checkpoint and LTV is the revenue to date
+  ltvHorizonDays: number | null;
+  overall: CustomerValueSegment;
+  channels: CustomerValueSegment[];
+  insights: string[];
+}
+
+// Atom and session fields metrics can be sliced by
+export type AtomDimension =
+  | "sourceName"
+  | "sourceGroupName"
+  | "groupsOfSourceGroupName"
+  | "isPaidName"
+  | "campaignId"
+  | "adsetId"
+  | "adId";
+
+export type SessionDimension =
+  | "deviceCategory"
+  | "deviceOperatingSystem"
+  | "geoCountry"
+  | "geoRegion";
+
+// Totals of one slice in one period. Spend and clicks are only known for
+// atom dimensions, and sessions only for session dimensions.
+export interface SliceMetrics {
+  spend: number | null;
+  clicks: number | null;
+  sessions: number | null;
+  revenue: number;
+  conversions: number; // transactions
+  customers: number; // new paying customers
+  roas: number | null;
+  cac: number | null;
+  revenuePerSession: number | null;
+}
+
+export interface DrillDownSlice {
+  value: string;
+  current: SliceMetrics;
+  previous: SliceMetrics;
+  revenueChange: number;
+  // Share of the dimension's total revenue change, in percent
+  contribution: number;
+}
+
+export interface DimensionDrillDown {
+  dimension: AtomDimension | SessionDimension;
+  source: "atom" | "session";
+  // Metric bottom performers are ranked by
+  performanceMetric: "roas" | "revenuePerSession";
+  sliceCount: number;
+  // Slices with the largest revenue change
+  topMovers: DrillDownSlice[];
+  // Slices with a meaningful share of spend (or sessions) and the weakest performance
+  bottomPerformers: DrillDownSlice[];
+}
+
+export interface DrillDownAnalysis {
+  dimensions: DimensionDrillDown[];
+  insights: string[];
+}
+
+// KPIs tracked as daily series
+export type DailyMetric =
+  | "spend"
+  | "clicks"
+  | "impressions"
+  | "revenue"
+  | "leads"
+  | "contacts"
+  | "newCustomers";
+
+export interface DailySeries {
+  metric: DailyMetric;
+  // One value per day, oldest first; null on days a daily export is missing
+  points: { date: string; value: number | null }[];
+}
+
+// KPIs projected by the forecast
+export type ForecastMetric = "spend" | "revenue" | "roas" | "newCustomers";
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric;
+  // Daily projections; empty for ROAS, which is only projected over the horizon
+  daily: ForecastPoint[];
+  // Projection over the whole horizon: a total, or the ratio of totals for ROAS
+  horizon: Omit<ForecastPoint, "date">;
+  // The same over the horizon at the pace of the most recent days
+  recentPace: number;
+  // Where the projection falls relative to the recent pace
+  outlook: "above" | "in_line" | "below";
+  // Days without data in the history, imputed from the seasonal level
+  missingDates: string[];
+}
+
+export interface ForecastAnalysis {
+  startDate: string;
+  horizonDays: number;
+  historyDays: number;
+  confidenceLevel: number;
+  forecasts: MetricForecast[];
+  insights: string[];
+}
+
+// Units budgets are reallocated between
+export type BudgetLevel = "channel" | "campaign";
+
+// Daily spend limits of one unit
+export interface BudgetBounds {
+  min: number;
+  max: number;
+}
+
+// Fitted daily revenue = scale * spend ^ elasticity
+export interface ResponseCurve {
+  scale: number;
+  elasticity: number; // 1 is constant returns, lower is diminishing returns
+  rSquared: number;
+  days: number; // days with spend the curve was fitted on
+}
+
+export interface BudgetRecommendation {
+  name: string;
+  // Left at its current budget when no reliable curve could be fitted
+  action: "increase" | "decrease" | "keep" | "not_optimized";
+  reason?: string; // why a unit wasn't optimized
+  // Also set for weak or edge-of-range fits, which aren't optimized
+  curve: ResponseCurve | null;
+  bounds: BudgetBounds;
+  currentDailySpend: number;
+  recommendedDailySpend: number;
+  change: number;
+  // Attributed revenue per unit of spend at the current budget
+  currentRoas: number | null;
+  // Revenue of one more unit of spend at the current and recommended budgets
+  currentMarginalRoas: number | null;
+  recommendedMarginalRoas: number | null;
+  // Daily revenue on the fitted curve
+  currentDailyRevenue: number | null;
+  projectedDailyRevenue: number | null;
+}
+
+export interface BudgetRecommendations {
+  level: BudgetLevel;
+  attributionModel: AttributionModel;
+  period: DateRange; // days the curves were fitted on
+  // Daily budget of the optimized units, before and after reallocation
+  currentDailyBudget: number;
+  recommendedDailyBudget: number;
+  // Daily revenue of the optimized units on their fitted curves
+  currentDailyRevenue: number;
+  projectedDailyRevenue: number;
+  revenueLift: number;
+  revenueLiftPercent: number;
+  recommendations: BudgetRecommendation[];
+  insights: string[];
+}
+
+export type AnomalySeverity = "low" | "medium" | "high";
+
+export interface Anomaly {
+  metric: DailyMetric;
+  date: string;
+  observed: number;
+  expected: number;
+  // Range of values considered normal for the day
+  lowerBound: number;
+  upperBound: number;
+  // Distance from the expected value in robust standard deviations
+  deviation: number;
+  direction: "above" | "below";
+  severity: AnomalySeverity;
+}
+
+export interface AnomalyAnalysis {
+  date: string;
+  baselineDays: number;
+  checkedMetrics: DailyMetric[];
+  // Days without data in the baseline or on the date, left out of the check
+  missingDates: Partial<Record<DailyMetric, string[]>>;
+  anomalies: Anomaly[];
+  insights: string[];
+}
+
+export type AttributionModel =
+  | "first_touch"
+  | "last_touch"
+  | "linear"
+  | "time_decay"
+  | "position_based";
+
+// Spend and the revenue and conversions credited to one atom or channel
+export interface AttributedPerformance {
+  name: string;
+  spend: number;
+  revenue: number;
+  conversions: number; // Credited payments
+  customers: number; // Credited first payments of clients
+  roas: number;
+  cac: number;
+}
+
+export interface AttributionAnalysis {
+  journeys: {
+    total: number;
+    multiTouch: number;
+    averageTouchpoints: number;
+  };
+  models: {
+    model: AttributionModel;
+    channels: AttributedPerformance[];
+    atoms: AttributedPerformance[];
+  }[];
+  insights: string[];
+}
+
 export interface DailyBrief {
   date: string;
+  comparisonWindows: ComparisonWindows;
   dataValidation: DataValidationResult;
   metricsAnalysis: MetricsAnalysis;
+  attributionAnalysis: AttributionAnalysis;
+  drillDown: DrillDownAnalysis;
   conversionAnalysis: ConversionAnalysis;
+  conversionLag: ConversionLagAnalysis;
   channelDistribution: ChannelDistributionAnalysis;
+  experimentAnalysis?: ExperimentAnalysis;
+  cohortAnalysis: CohortAnalysis;
+  customerValue: CustomerValueAnalysis;
+  anomalies: AnomalyAnalysis;
+  forecast: ForecastAnalysis;
+  budgetRecommendations: BudgetRecommendations;
   dataQualityImprovements: DataQualityImprovements;
   reportingImprovements: ReportingImprovements;
   summary: string;
@@ -9,29 +9,53 @@ import {
   Transaction,
   SourceData,
   Atom,
+  DataSetName,
+  DateRange,
+  LoadedDataSet,
 } from "../types";
+import {
+  EntitySchema,
+  SchemaLoadResult,
+  createSchemaReader,
+} from "./schema-validation";
+import {
+  sessionSchema,
+  leadSchema,
+  contactSchema,
+  contact2LeadSchema,
+  transactionSchema,
+  sourceDataSchema,
+  atomSchema,
+  DATASET_DATE_FIELDS,
+} from "./entity-schemas";
+import { isDateInRanges } from "./date-utils";
 
-// Helper to convert string boolean values to actual booleans
-const parseBoolean = (value: string | undefined | null): boolean => {
-  if (value === undefined || value === null || value === "") {
-    return false;
-  }
-  return value.toString().toLowerCase() === "true" || value === "1";
-};
+// Date window applied while streaming rows: only records whose date field
+// falls in one of the ranges are kept
+export interface DateWindow {
+  dateField: string;
+  ranges: DateRange[];
+}
 
-// Helper to convert numeric strings to numbers
-const parseNumber = (value: string | undefined | null): number => {
-  if (value === undefined || value === null || value === "") {
-    return 0;
-  }
-  const parsed = parseFloat(value.toString().replace(",", "."));
-  return isNaN(parsed) ? 0 : parsed;
-};
+// Check whether a (transformed) record falls inside a date window
+export function isInDateWindow(record: any, dateWindow?: DateWindow): boolean {
+  if (!dateWindow) return true;
+
+  const value = record?.[dateWindow.dateField];
+  return (
+    value !== undefined &&
+    value !== null &&
+    isDateInRanges(String(value), dateWindow.ranges)
+  );
+}
 
-// Main function to load any CSV file and convert it to a typed array
+// Main function to load any CSV file and convert it to a typed array.
+// Rows the transformer returns undefined for, and rows outside the optional
+// date window, are dropped while streaming.
 export async function loadCsv<T>(
   filePath: string,
-  transformer?: (row: any) => T
+  transformer?: (row: any) => T | undefined,
+  dateWindow?: DateWindow
 ): Promise<T[]> {
   const results: T[] = [];
 
@@ -48,10 +72,9 @@ export async function loadCsv<T>(
         })
       )
       .on("data", (row) => {
-        if (transformer) {
-          results.push(transformer(row));
-        } else {
-          results.push(row as T);
+        const record = transformer ? transformer(row) : (row as T);
+        if (record !== undefined && isInDateWindow(record, dateWindow)) {
+          results.push(record);
         }
       })
       .on("end", () => {
@@ -63,131 +86,149 @@ export async function loadCsv<T>(
   });
 }
 
-// Type-specific loaders with appropriate transformers
-export async function loadSessions(filePath: string): Promise<Session[]> {
-  return loadCsv<Session>(filePath, (row) => ({
-    id: row.id,
-    mcid: row.Mcid,
-    userPseudoId: row.UserPseudoId,
-    gaSessionId: row.GaSessionId,
-    datetimeShifted: row.DatetimeShifted,
-    deviceCategory: row.DeviceCategory,
-    deviceMobileBrandName: row.DeviceMobileBrandName,
-    deviceMobileModelName: row.DeviceMobileModelName,
-    deviceOperatingSystem: row.DeviceOperatingSystem,
-    deviceOperatingSystemVersion: row.DeviceOperatingSystemVersion,
-    geoCountry: row.GeoCountry,
-    geoRegion: row.GeoRegion,
-    geoCity: row.GeoCity,
-    geoSubContinent: row.GeoSubContinent,
-    geoMetro: row.GeoMetro,
-  }));
+// File name stem of each dataset, appended to the data prefix
+export const DATASET_FILE_STEMS: Record<DataSetName, string> = {
+  sessions: "Sessions",
+  leads: "Leads",
+  contacts: "Contacts",
+  contact2Leads: "Contacts2Leads",
+  transactions: "Transactions",
+  sourceData: "SourceData",
+  atoms: "Atoms",
+};
+
+// Build the date window of a dataset, if it has a date field and ranges are given
+export function getDataSetDateWindow(
+  dataset: DataSetName,
+  ranges?: DateRange[]
+): DateWindow | undefined {
+  const dateField = DATASET_DATE_FIELDS[dataset];
+  return ranges && dateField ? { dateField, ranges } : undefined;
 }
 
-export async function loadLeads(filePath: string): Promise<Lead[]> {
-  return loadCsv<Lead>(filePath, (row) => {
-    return {
-      id: row.id,
-      atomid: row.atomid,
-      mcId: row.McId,
-      datetimeCreatedShifted: row.DatetimeCreatedShifted,
-      googleClientId: row.GoogleClientId,
-      ch_isFirst4ContactAttribution: parseBoolean(
-        row.ch_isFirst4ContactAttribution
-      ),
-    };
-  });
+// Load a CSV file and validate its rows against an entity schema, keeping
+// only rows inside the optional date ranges
+export async function loadCsvWithSchema<T>(
+  filePath: string,
+  dataset: DataSetName,
+  schema: EntitySchema<T>,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<T>> {
+  const reader = createSchemaReader(dataset, schema, filePath);
+  const records = await loadCsv(
+    filePath,
+    (row) => reader.read(row),
+    getDataSetDateWindow(dataset, ranges)
+  );
+  const report = reader.getReport();
+
+  return {
+    records,
+    report: {
+      ...report,
+      outOfWindowRows: report.acceptedRows - records.length,
+    },
+  };
 }
 
-export async function loadContacts(filePath: string): Promise<Contact[]> {
-  return loadCsv<Contact>(filePath, (row) => ({
-    id: row.id,
-    atomid: row.atomid,
-    mcId: row.McId,
-    datetimeCreatedShifted: row.DatetimeCreatedShifted,
-    googleClientId: row.GoogleClientId,
-    entityCreatedWith: row.EntityCreatedWith,
-    ch_isFirst4ContactAttribution: parseBoolean(
-      row.ch_isFirst4ContactAttribution
-    ),
-    ch_isFirst: parseBoolean(row.ch_isFirst),
-  }));
+// Type-specific loaders with their entity schemas
+export async function loadSessions(
+  filePath: string,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<Session>> {
+  return loadCsvWithSchema(filePath, "sessions", sessionSchema, ranges);
+}
+
+export async function loadLeads(
+  filePath: string,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<Lead>> {
+  return loadCsvWithSchema(filePath, "leads", leadSchema, ranges);
+}
+
+export async function loadContacts(
+  filePath: string,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<Contact>> {
+  return loadCsvWithSchema(filePath, "contacts", contactSchema, ranges);
 }
 
 export async function loadContact2Leads(
   filePath: string
-): Promise<Contact2Lead[]> {
-  return loadCsv<Contact2Lead>(filePath, (row) => ({
-    leadId: row.leadId,
-    contactId: row.contactId,
-  }));
+): Promise<SchemaLoadResult<Contact2Lead>> {
+  return loadCsvWithSchema(filePath, "contact2Leads", contact2LeadSchema);
 }
 
 export async function loadTransactions(
-  filePath: string
-): Promise<Transaction[]> {
-  return loadCsv<Transaction>(filePath, (row) => ({
-    id: row.Id,
-    atomid: row.atomid,
-    mcId: row.McId,
-    paymentDatetimeShifted: row.PaymentDatetimeShifted,
-    paidSumOriginalCurrency: parseNumber(row.PaidSumOriginalCurrency),
-    ch_isFirstClientPaid: parseBoolean(row.ch_isFirstClientPaid),
-  }));
+  filePath: string,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<Transaction>> {
+  return loadCsvWithSchema(filePath, "transactions", transactionSchema, ranges);
 }
 
-export async function loadSourceData(filePath: string): Promise<SourceData[]> {
-  return loadCsv<SourceData>(filePath, (row) => ({
-    date: row.Date,
-    atomId: row.AtomId,
-    shows: parseNumber(row.Shows),
-    budgetSpent: parseNumber(row.BudgetSpent),
-    clicks: parseNumber(row.Clicks),
-  }));
+export async function loadSourceData(
+  filePath: string,
+  ranges?: DateRange[]
+): Promise<SchemaLoadResult<SourceData>> {
+  return loadCsvWithSchema(filePath, "sourceData", sourceDataSchema, ranges);
+}
+
+export async function loadAtoms(
+  filePath: string
+): Promise<SchemaLoadResult<Atom>> {
+  return loadCsvWithSchema(filePath, "atoms", atomSchema);
 }
 
-export async function loadAtoms(filePath: string): Promise<Atom[]> {
-  return loadCsv<Atom>(filePath, (row) => ({
-    atomId: row.AtomId,
-    name: row.Name,
-    sourceName: row.SourceName,
-    sourceGroupName: row.SourceGroupName,
-    groupsOfSourceGroupName: row.GroupsOfSourceGroupName,
-    isPaidName: row.IsPaidName,
-    campaignId: row.CampaignId,
-    adsetId: row.AdsetId,
-    adId: row.AdId,
-  }));
+// Path of a dataset's CSV file for a specific prefix
+export function getDataSetCsvPath(
+  dataDir: string,
+  prefix: string,
+  name: DataSetName
+): string {
+  return join(dataDir, `${prefix}${DATASET_FILE_STEMS[name]}.csv`);
 }
 
-// Function to load all data files for a specific prefix
+// Function to load all data files for a specific prefix. When date ranges are
+// given, dated rows outside them are dropped while streaming.
 export async function loadDataSet(
   dataDir: string,
-  prefix: string // Changed type from "ai.test" | "ai.control" to string
-) {
+  prefix: string,
+  ranges?: DateRange[]
+): Promise<LoadedDataSet> {
+  const fileFor = (name: DataSetName) =>
+    getDataSetCsvPath(dataDir, prefix, name);
+
   try {
-    const sessions = await loadSessions(join(dataDir, `${prefix}Sessions.csv`));
-    const leads = await loadLeads(join(dataDir, `${prefix}Leads.csv`));
-    const contacts = await loadContacts(join(dataDir, `${prefix}Contacts.csv`));
-    const contact2Leads = await loadContact2Leads(
-      join(dataDir, `${prefix}Contacts2Leads.csv`)
-    );
+    const sessions = await loadSessions(fileFor("sessions"), ranges);
+    const leads = await loadLeads(fileFor("leads"), ranges);
+    const contacts = await loadContacts(fileFor("contacts"), ranges);
+    const contact2Leads = await loadContact2Leads(fileFor("contact2Leads"));
     const transactions = await loadTransactions(
-      join(dataDir, `${prefix}Transactions.csv`)
-    );
-    const sourceData = await loadSourceData(
-      join(dataDir, `${prefix}SourceData.csv`)
+      fileFor("transactions"),
+      ranges
     );
-    const atoms = await loadAtoms(join(dataDir, `${prefix}Atoms.csv`));
+    const sourceData = await loadSourceData(fileFor("sourceData"), ranges);
+    const atoms = await loadAtoms(fileFor("atoms"));
 
     return {
-      sessions,
-      leads,
-      contacts,
-      contact2Leads,
-      transactions,
-      sourceData,
-      atoms,
+      dataSet: {
+        sessions: sessions.records,
+        leads: leads.records,
+        contacts: contacts.records,
+        contact2Leads: contact2Leads.records,
+        transactions: transactions.records,
+        sourceData: sourceData.records,
+        atoms: atoms.records,
+      },
+      reports: [
+        sessions.report,
+        leads.report,
+        contacts.report,
+        contact2Leads.report,
+        transactions.report,
+        sourceData.report,
+        atoms.report,
+      ],
     };
   } catch (error) {
     console.error("Error loading dataset:", error);
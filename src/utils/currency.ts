@@ -0,0 +1,206 @@
+import fs from "fs-extra";
+import { CurrencyConversionReport, DataSet, ExchangeRate } from "../types";
+import { loadCsv } from "./csv-loader";
+import { coerceValue } from "./schema-validation";
+import { extractDatePart } from "./date-utils";
+
+// Columns of the exchange-rate file, matched case-insensitively
+const RATE_COLUMNS = {
+  date: ["date"],
+  from: ["from", "currency", "base"],
+  to: ["to", "quote"],
+  rate: ["rate"],
+};
+
+/**
+ * Read a column of a raw row by any of its accepted names
+ */
+function readColumn(row: Record<string, unknown>, names: string[]): unknown {
+  const key = Object.keys(row).find((column) =>
+    names.includes(
+      column
+        .replace(/^\uFEFF/, "")
+        .trim()
+        .toLowerCase()
+    )
+  );
+  return key === undefined ? undefined : row[key];
+}
+
+/**
+ * Load a dated exchange-rate table. Each row gives the value of one unit of
+ * `from` in `to` on `date`; rows with a missing or invalid rate are skipped.
+ * @param filePath Path to the semicolon-delimited CSV file
+ * @returns Exchange rates, or an empty list if the file doesn't exist
+ */
+export async function loadExchangeRates(
+  filePath: string
+): Promise<ExchangeRate[]> {
+  // Without a rate table only amounts already in the reporting currency are used
+  if (!fs.existsSync(filePath)) return [];
+
+  return loadCsv<ExchangeRate>(filePath, (row) => {
+    const date = readColumn(row, RATE_COLUMNS.date);
+    const from = readColumn(row, RATE_COLUMNS.from);
+    const to = readColumn(row, RATE_COLUMNS.to);
+    const rate = coerceValue(readColumn(row, RATE_COLUMNS.rate), "number");
+
+    if (!date || !from || !to || typeof rate !== "number" || rate <= 0) {
+      return undefined;
+    }
+
+    return {
+      date: extractDatePart(String(date)),
+      from: String(from).trim().toUpperCase(),
+      to: String(to).trim().toUpperCase(),
+      rate,
+    };
+  });
+}
+
+/**
+ * Create a lookup of the rate converting a currency into the reporting
+ * currency on a date. The latest rate on or before the date is used, from a
+ * direct quote or the inverse of the reverse quote; rates after the date are
+ * never used.
+ * @param rates Exchange-rate table
+ * @param reportingCurrency Currency all amounts are converted into
+ * @returns Function returning the rate, or undefined if none is known
+ */
+export function createRateLookup(
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): (currency: string, date: string) => number | undefined {
+  // Rates into the reporting currency per source currency, sorted by date
+  const byCurrency = new Map<string, { date: string; rate: number }[]>();
+  rates.forEach((rate) => {
+    if (rate.to === reportingCurrency) {
+      const list = byCurrency.get(rate.from) || [];
+      list.push({ date: rate.date, rate: rate.rate });
+      byCurrency.set(rate.from, list);
+    } else if (rate.from === reportingCurrency) {
+      const list = byCurrency.get(rate.to) || [];
+      list.push({ date: rate.date, rate: 1 / rate.rate });
+      byCurrency.set(rate.to, list);
+    }
+  });
+  byCurrency.forEach((list) =>
+    list.sort((a, b) => a.date.localeCompare(b.date))
+  );
+
+  return (currency, date) => {
+    if (currency === reportingCurrency) return 1;
+
+    const list = byCurrency.get(currency) || [];
+    let rate: number | undefined;
+    for (const entry of list) {
+      if (entry.date > date) break;
+      rate = entry.rate;
+    }
+    return rate;
+  };
+}
+
+/**
+ * Convert transaction revenue and ad spend into the reporting currency.
+ * Amounts without a currency are assumed to already be in it. Spend rows
+ * without a currency use the currency of their atom. Amounts with no known
+ * rate are left out of revenue and spend: the row is kept, so it still counts
+ * as a payment or its clicks and impressions, but its amount becomes 0 and is
+ * reported as missing rates.
+ * @param dataSet Loaded dataset
+ * @param rates Exchange-rate table
+ * @param reportingCurrency Currency all amounts are converted into
+ * @returns Dataset with converted amounts, and the conversion report
+ */
+export function normalizeCurrencies(
+  dataSet: DataSet,
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): { dataSet: DataSet; report: CurrencyConversionReport } {
+  const reporting = reportingCurrency.toUpperCase();
+  const getRate = createRateLookup(rates, reporting);
+  const atomCurrency = new Map(
+    dataSet.atoms
+      .filter((atom) => atom.currency)
+      .map((atom) => [atom.atomId, atom.currency!])
+  );
+
+  const missing = new Map<
+    string,
+    CurrencyConversionReport["missingRates"][0]
+  >();
+  const recordMissing = (
+    dataset: "transactions" | "sourceData",
+    currency: string,
+    date: string,
+    amount: number
+  ) => {
+    const key = `${dataset}:${currency}`;
+    const entry = missing.get(key) || {
+      dataset,
+      currency,
+      firstDate: date,
+      lastDate: date,
+      rows: 0,
+      amount: 0,
+    };
+    entry.rows++;
+    entry.amount += amount;
+    if (date < entry.firstDate) entry.firstDate = date;
+    if (date > entry.lastDate) entry.lastDate = date;
+    missing.set(key, entry);
+  };
+
+  let convertedTransactions = 0;
+  const transactions = dataSet.transactions.map((tx) => {
+    const currency = tx.currency?.trim().toUpperCase();
+    if (!currency || currency === reporting) return tx;
+
+    const date = extractDatePart(tx.paymentDatetimeShifted);
+    const rate = getRate(currency, date);
+    if (rate === undefined) {
+      recordMissing("transactions", currency, date, tx.paidSumOriginalCurrency);
+      return { ...tx, paidSumOriginalCurrency: 0 };
+    }
+
+    convertedTransactions++;
+    return {
+      ...tx,
+      paidSumOriginalCurrency: tx.paidSumOriginalCurrency * rate,
+      currency: reporting,
+    };
+  });
+
+  let convertedSpendRows = 0;
+  const sourceData = dataSet.sourceData.map((sd) => {
+    const currency = (sd.currency || atomCurrency.get(sd.atomId))
+      ?.trim()
+      .toUpperCase();
+    if (!currency || currency === reporting) return sd;
+
+    const date = extractDatePart(sd.date);
+    const rate = getRate(currency, date);
+    if (rate === undefined) {
+      recordMissing("sourceData", currency, date, sd.budgetSpent);
+      return { ...sd, budgetSpent: 0 };
+    }
+
+    convertedSpendRows++;
+    return {
+      ...sd,
+      budgetSpent: sd.budgetSpent * rate,
+      currency: reporting,
+    };
+  });
+
+  return {
+    dataSet: { ...dataSet, transactions, sourceData },
+    report: {
+      reportingCurrency: reporting,
+      convertedTransactions,
+      convertedSpendRows,
+      missingRates: [...missing.values()],
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import fs from "fs-extra";
+import { join } from "path";
+import { createHash, Hash } from "crypto";
+import { DailySeries } from "../types";
+
+// Bump when the cached series or the processing they come from change
+const CACHE_VERSION = 3;
+
+interface CacheEntry {
+  version: number;
+  key: string;
+  series: DailySeries[];
+}
+
+/**
+ * Feed the contents of a file, or of every file below a directory in name
+ * order, into a hash
+ */
+async function hashPath(hash: Hash, path: string, name: string) {
+  const stats = await fs.stat(path);
+  if (stats.isDirectory()) {
+    for (const entry of (await fs.readdir(path)).sort()) {
+      await hashPath(hash, join(path, entry), `${name}/${entry}`);
+    }
+    return;
+  }
+
+  hash.update(`${name}\u0000${stats.size}\u0000`);
+  for await (const chunk of fs.createReadStream(path)) {
+    hash.update(chunk);
+  }
+}
+
+/**
+ * Fingerprint the inputs of the daily aggregates: the contents of every file
+ * or partition directory in the data directory whose name starts with the
+ * prefix, any extra files such as the exchange-rate table, and the settings
+ * that change how records are windowed, converted, deduplicated and joined
+ * @param dataDir Directory containing the data files
+ * @param prefix File name prefix (e.g. "test")
+ * @param extraFiles Other files the records depend on; missing ones are skipped
+ * @param settings Settings the aggregates depend on
+ * @returns Hex digest identifying the inputs
+ */
+export async function getDailyAggregateKey(
+  dataDir: string,
+  prefix: string,
+  extraFiles: string[],
+  settings: Record<string, unknown>
+): Promise<string> {
+  const hash = createHash("sha1");
+  hash.update(JSON.stringify({ version: CACHE_VERSION, settings }));
+
+  const sources = fs.existsSync(dataDir)
+    ? (await fs.readdir(dataDir)).filter((name) => name.startsWith(prefix))
+    : [];
+  for (const name of sources.sort()) {
+    await hashPath(hash, join(dataDir, name), name);
+  }
+  for (const file of extraFiles) {
+    if (fs.existsSync(file)) await hashPath(hash, file, file);
+  }
+
+  return hash.digest("hex");
+}
+
+const getCachePath = (cacheDir: string, prefix: string) =>
+  join(cacheDir, `${prefix}.daily.json`);
+
+/**
+ * Read the cached daily series of a prefix
+ * @param cacheDir Directory holding the cache files
+ * @param prefix File name prefix the series were computed for
+ * @param key Fingerprint of the current inputs
+ * @returns The cached series, or undefined if there are none for these inputs
+ */
+export async function readDailyAggregates(
+  cacheDir: string,
+  prefix: string,
+  key: string
+): Promise<DailySeries[] | undefined> {
+  const cachePath = getCachePath(cacheDir, prefix);
+  if (!fs.existsSync(cachePath)) return undefined;
+
+  try {
+    const cached: CacheEntry = await fs.readJSON(cachePath);
+    return cached.version === CACHE_VERSION && cached.key === key
+      ? cached.series
+      : undefined;
+  } catch (error) {
+    console.warn(`Ignoring unreadable cache file ${cachePath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Cache the daily series of a prefix, replacing those of earlier inputs
+ * @param cacheDir Directory holding the cache files
+ * @param prefix File name prefix the series were computed for
+ * @param key Fingerprint of the inputs the series were computed from
+ * @param series Daily series of the processed records
+ */
+export async function writeDailyAggregates(
+  cacheDir: string,
+  prefix: string,
+  key: string,
+  series: DailySeries[]
+): Promise<void> {
+  const entry: CacheEntry = { version: CACHE_VERSION, key, series };
+  try {
+    await fs.ensureDir(cacheDir);
+    await fs.writeJSON(getCachePath(cacheDir, prefix), entry);
+  } catch (error) {
+    console.warn(`Could not write the daily aggregate cache:`, error);
+  }
+}
@@ -0,0 +1,298 @@
+import fs from "fs-extra";
+import { join, extname } from "path";
+import { createInterface } from "readline";
+import initSqlJs from "sql.js";
+import {
+  DataSet,
+  DataSetName,
+  DataSetRecord,
+  DateRange,
+  LoadedDataSet,
+  LoadReport,
+} from "../types";
+import {
+  loadCsv,
+  loadDataSet,
+  isInDateWindow,
+  getDataSetDateWindow,
+  DateWindow,
+  DATASET_FILE_STEMS,
+} from "./csv-loader";
+import { ENTITY_SCHEMAS, FileFields } from "./entity-schemas";
+import { createSchemaReader } from "./schema-validation";
+
+/**
+ * Supported kinds of data source
+ * - csv: one semicolon-delimited file per dataset (`${prefix}Sessions.csv`)
+ * - jsonl: one JSON Lines file per dataset (`${prefix}Sessions.jsonl`)
+ * - sqlite: one database per prefix (`${prefix}.sqlite`) with a table per dataset (`Sessions`)
+ * - partitioned: one directory per dataset (`${prefix}Sessions/`) holding daily .csv or .jsonl files
+ */
+export type DataSourceKind = "csv" | "jsonl" | "sqlite" | "partitioned";
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = [
+  "csv",
+  "jsonl",
+  "sqlite",
+  "partitioned",
+];
+
+/**
+ * A source of marketing data. Every adapter returns the same typed dataset
+ * shape and load reports, so the agent nodes don't need to know where the
+ * data came from.
+ */
+export interface DataSourceAdapter {
+  kind: DataSourceKind;
+  // When date ranges are given, dated rows outside them are dropped while reading
+  loadDataSet(
+    dataDir: string,
+    prefix: string,
+    ranges?: DateRange[]
+  ): Promise<LoadedDataSet>;
+}
+
+// Reads one dataset's rows through a transformer, dropping rows the
+// transformer returns undefined for and rows outside the date window
+type RecordReader = (
+  name: DataSetName,
+  transform: (row: any) => unknown,
+  dateWindow?: DateWindow
+) => Promise<unknown[]>;
+
+const DATASET_NAMES = Object.keys(DATASET_FILE_STEMS) as DataSetName[];
+
+// Schema reader of a dataset, typed by the dataset's records
+const createDataSetReader = <K extends DataSetName>(name: K, source: string) =>
+  createSchemaReader<FileFields<DataSetRecord[K]>>(
+    name,
+    ENTITY_SCHEMAS[name],
+    source
+  );
+
+/**
+ * Build a full dataset by reading each dataset's rows through its entity
+ * schema and date window
+ * @param ranges Optional date ranges to keep
+ * @param sourceFor Names the file, directory or table a dataset comes from
+ * @param readRecords Reads a dataset's rows
+ * @returns Typed dataset with a load report per dataset
+ */
+async function buildDataSet(
+  ranges: DateRange[] | undefined,
+  sourceFor: (name: DataSetName) => string,
+  readRecords: RecordReader
+): Promise<LoadedDataSet> {
+  const dataSet: Partial<Record<DataSetName, unknown[]>> = {};
+  const reports: LoadReport[] = [];
+
+  for (const name of DATASET_NAMES) {
+    const reader = createDataSetReader(name, sourceFor(name));
+    const records = await readRecords(
+      name,
+      (row) => reader.read(row),
+      getDataSetDateWindow(name, ranges)
+    );
+    const report = reader.getReport();
+
+    dataSet[name] = records;
+    reports.push({
+      ...report,
+      outOfWindowRows: report.acceptedRows - records.length,
+    });
+  }
+
+  return { dataSet: dataSet as DataSet, reports };
+}
+
+/**
+ * Read a JSON Lines file line by line, skipping blank lines
+ * @param filePath Path to the .jsonl file
+ * @param transformer Optional row transformer; undefined results are dropped
+ * @param dateWindow Optional date window applied to the transformed rows
+ * @returns Parsed rows
+ */
+export async function readJsonLines<T = any>(
+  filePath: string,
+  transformer?: (row: any) => T | undefined,
+  dateWindow?: DateWindow
+): Promise<T[]> {
+  if (!fs.existsSync(filePath)) {
+    console.error(`File not found: ${filePath}`);
+    return [];
+  }
+
+  const results: T[] = [];
+  const lines = createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") continue;
+
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON on line ${lineNumber} of ${filePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    const record = transformer ? transformer(row) : (row as T);
+    if (record !== undefined && isInDateWindow(record, dateWindow)) {
+      results.push(record);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Adapter for the semicolon-delimited CSV exports
+ */
+export const csvDataSource: DataSourceAdapter = {
+  kind: "csv",
+  loadDataSet,
+};
+
+/**
+ * Adapter for JSON Lines exports using the same column names as the CSV files
+ */
+export const jsonLinesDataSource: DataSourceAdapter = {
+  kind: "jsonl",
+  loadDataSet: (dataDir, prefix, ranges) => {
+    const sourceFor = (name: DataSetName) =>
+      join(dataDir, `${prefix}${DATASET_FILE_STEMS[name]}.jsonl`);
+
+    return buildDataSet(ranges, sourceFor, (name, transform, dateWindow) =>
+      readJsonLines(sourceFor(name), transform, dateWindow)
+    );
+  },
+};
+
+/**
+ * Adapter for a local SQLite database with one table per dataset
+ */
+export const sqliteDataSource: DataSourceAdapter = {
+  kind: "sqlite",
+  loadDataSet: async (dataDir, prefix, ranges) => {
+    const dbPath = join(dataDir, `${prefix}.sqlite`);
+
+    if (!fs.existsSync(dbPath)) {
+      throw new Error(`SQLite database not found: ${dbPath}`);
+    }
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await fs.readFile(dbPath));
+
+    try {
+      const tables = new Set(
+        (
+          db.exec("SELECT name FROM sqlite_master WHERE type = 'table'")[0]
+            ?.values ?? []
+        ).map(([name]) => String(name))
+      );
+
+      return await buildDataSet(
+        ranges,
+        (name) => `${dbPath}#${DATASET_FILE_STEMS[name]}`,
+        async (name, transform, dateWindow) => {
+          const table = DATASET_FILE_STEMS[name];
+
+          if (!tables.has(table)) {
+            console.error(`Table not found in ${dbPath}: ${table}`);
+            return [];
+          }
+
+          const records: unknown[] = [];
+          const statement = db.prepare(`SELECT * FROM "${table}"`);
+          while (statement.step()) {
+            const record = transform(statement.getAsObject());
+            if (record !== undefined && isInDateWindow(record, dateWindow)) {
+              records.push(record);
+            }
+          }
+          statement.free();
+
+          return records;
+        }
+      );
+    } finally {
+      db.close();
+    }
+  },
+};
+
+/**
+ * Adapter for directories of daily partitioned files. Each dataset lives in
+ * its own directory and every .csv or .jsonl file in it is one partition
+ * (typically named YYYY-MM-DD). Partitions are read in file name order.
+ */
+export const partitionedDataSource: DataSourceAdapter = {
+  kind: "partitioned",
+  loadDataSet: (dataDir, prefix, ranges) => {
+    const sourceFor = (name: DataSetName) =>
+      join(dataDir, `${prefix}${DATASET_FILE_STEMS[name]}`);
+
+    return buildDataSet(
+      ranges,
+      sourceFor,
+      async (name, transform, dateWindow) => {
+        const partitionDir = sourceFor(name);
+
+        if (!fs.existsSync(partitionDir)) {
+          console.error(`Partition directory not found: ${partitionDir}`);
+          return [];
+        }
+
+        const partitions = (await fs.readdir(partitionDir))
+          .filter((file) => [".csv", ".jsonl"].includes(extname(file)))
+          .sort();
+
+        const records: unknown[] = [];
+        for (const file of partitions) {
+          const filePath = join(partitionDir, file);
+          const partitionRecords =
+            extname(file) === ".csv"
+              ? await loadCsv(filePath, transform, dateWindow)
+              : await readJsonLines(filePath, transform, dateWindow);
+          records.push(...partitionRecords);
+        }
+
+        return records;
+      }
+    );
+  },
+};
+
+const DATA_SOURCE_ADAPTERS: Record<DataSourceKind, DataSourceAdapter> = {
+  csv: csvDataSource,
+  jsonl: jsonLinesDataSource,
+  sqlite: sqliteDataSource,
+  partitioned: partitionedDataSource,
+};
+
+/**
+ * Get the data source adapter for a configured kind
+ * @param kind Kind of data source (csv, jsonl, sqlite or partitioned)
+ * @returns The matching adapter
+ */
+export function getDataSourceAdapter(kind: string): DataSourceAdapter {
+  const adapter = DATA_SOURCE_ADAPTERS[kind as DataSourceKind];
+
+  if (!adapter) {
+    throw new Error(
+      `Unknown data source "${kind}". Expected one of: ${DATA_SOURCE_KINDS.join(
+        ", "
+      )}`
+    );
+  }
+
+  return adapter;
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  configureTimeZones,
+  extractDatePart,
+  parseTimestamp,
+} from "./date-utils";
+
+const iso = (value: string) => {
+  const epochMs = parseTimestamp(value);
+  return epochMs === undefined ? undefined : new Date(epochMs).toISOString();
+};
+
+describe("parseTimestamp", () => {
+  beforeEach(() =>
+    configureTimeZones({
+      reportingTimeZone: "Europe/Berlin",
+      sourceTimeZone: "Europe/Berlin",
+    })
+  );
+
+  it("reads timestamps without an offset in the source time zone", () => {
+    assert.equal(iso("2024-06-01 10:00:00"), "2024-06-01T08:00:00.000Z");
+    assert.equal(iso("2024-01-15 10:00"), "2024-01-15T09:00:00.000Z");
+  });
+
+  it("moves times skipped by the spring-forward gap forward", () => {
+    // 02:00 CET jumps to 03:00 CEST on 2024-03-31
+    assert.equal(iso("2024-03-31 02:30:00"), "2024-03-31T01:30:00.000Z");
+    assert.equal(iso("2024-03-31 01:59:59"), "2024-03-31T00:59:59.000Z");
+    assert.equal(iso("2024-03-31 03:00:00"), "2024-03-31T01:00:00.000Z");
+  });
+
+  it("resolves the repeated fall-back hour to its first occurrence", () => {
+    // 03:00 CEST falls back to 02:00 CET on 2024-10-27
+    assert.equal(iso("2024-10-27 02:30:00"), "2024-10-27T00:30:00.000Z");
+    assert.equal(iso("2024-10-27 03:00:00"), "2024-10-27T02:00:00.000Z");
+  });
+
+  it("accepts a space or T separator and fractional seconds", () => {
+    assert.equal(iso("2024-06-01T10:00:00"), iso("2024-06-01 10:00:00"));
+    assert.equal(iso("2024-06-01T10:00:00.5"), "2024-06-01T08:00:00.500Z");
+    assert.equal(iso("2024-06-01 10:00:00.123456"), "2024-06-01T08:00:00.123Z");
+  });
+
+  it("applies explicit offsets instead of the source time zone", () => {
+    assert.equal(iso("2024-06-01T10:00:00Z"), "2024-06-01T10:00:00.000Z");
+    assert.equal(iso("2024-06-01T10:00:00+05:30"), "2024-06-01T04:30:00.000Z");
+    assert.equal(iso("2024-06-01T10:00:00-0400"), "2024-06-01T14:00:00.000Z");
+    assert.equal(iso("2024-06-01 10:00:00+02"), "2024-06-01T08:00:00.000Z");
+  });
+
+  it("rejects values that aren't timestamps", () => {
+    assert.equal(parseTimestamp("01.06.2024 10:00"), undefined);
+    assert.equal(parseTimestamp(""), undefined);
+  });
+});
+
+describe("extractDatePart", () => {
+  beforeEach(() =>
+    configureTimeZones({
+      reportingTimeZone: "America/New_York",
+      sourceTimeZone: "UTC",
+    })
+  );
+
+  it("buckets timestamps into days of the reporting time zone", () => {
+    assert.equal(extractDatePart("2024-06-01 02:00:00"), "2024-05-31");
+    assert.equal(extractDatePart("2024-06-01T02:00:00+02:00"), "2024-05-31");
+    assert.equal(extractDatePart("2024-06-01T12:00:00Z"), "2024-06-01");
+  });
+
+  it("leaves plain dates unchanged", () => {
+    assert.equal(extractDatePart("2024-06-01"), "2024-06-01");
+  });
+});
@@ -1,4 +1,179 @@
-import { Session, Lead, Contact, Transaction, SourceData } from "../types";
+import {
+  Session,
+  Lead,
+  Contact,
+  Transaction,
+  SourceData,
+  DateRange,
+  DataSet,
+  ComparisonMode,
+  ComparisonWindows,
+} from "../types";
+
+// Time zones used to turn timestamps into calendar dates
+export interface TimeZoneSettings {
+  // Zone whose calendar days are reported
+  reportingTimeZone: string;
+  // Zone of timestamps without an explicit offset, such as the *Shifted columns
+  sourceTimeZone: string;
+}
+
+let timeZones: TimeZoneSettings = {
+  reportingTimeZone: "UTC",
+  sourceTimeZone: "UTC",
+};
+
+// Cached formatters, since creating one per timestamp is slow
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter of the calendar fields of an instant in a time zone
+ * @throws Error if the time zone is unknown
+ */
+function getDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = dateTimeFormats.get(timeZone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+    } catch (error) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    dateTimeFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Set the time zones used by every date helper. Dates are bucketed in UTC,
+ * with timestamps read as UTC, until this is called.
+ * @param settings Reporting and source time zones (IANA names, e.g. "Europe/Berlin")
+ * @throws Error if either time zone is unknown
+ */
+export function configureTimeZones(settings: TimeZoneSettings): void {
+  getDateTimeFormat(settings.reportingTimeZone);
+  getDateTimeFormat(settings.sourceTimeZone);
+  timeZones = { ...settings };
+}
+
+// Calendar fields of an instant in a time zone, as milliseconds of the same
+// wall-clock time in UTC
+function getWallClockTime(epochMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  getDateTimeFormat(timeZone)
+    .formatToParts(new Date(epochMs))
+    .forEach((part) => {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    });
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    ((epochMs % 1000) + 1000) % 1000
+  );
+}
+
+/**
+ * Offset of a time zone from UTC at an instant
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+function getTimeZoneOffset(epochMs: number, timeZone: string): number {
+  return getWallClockTime(epochMs, timeZone) - epochMs;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant. Wall-clock times
+ * skipped by a DST change are moved forward by the length of the gap, and
+ * times repeated by a DST change resolve to their first occurrence.
+ * @param wallClockMs Wall-clock time as milliseconds of the same time in UTC
+ * @param timeZone Time zone of the wall-clock time
+ * @returns Milliseconds since epoch
+ */
+function zonedTimeToEpoch(wallClockMs: number, timeZone: string): number {
+  const DAY_MS = 86400000;
+  const offsetBefore = getTimeZoneOffset(wallClockMs - DAY_MS, timeZone);
+  const offsetAfter = getTimeZoneOffset(wallClockMs + DAY_MS, timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallClockMs - offset)
+    .filter((epoch) => getWallClockTime(epoch, timeZone) === wallClockMs);
+
+  if (candidates.length > 0) {
+    return Math.min(...candidates);
+  }
+
+  // Inside a DST gap: keep the offset in effect before the change
+  return wallClockMs - offsetBefore;
+}
+
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+/**
+ * Parse a timestamp from the exports: "YYYY-MM-DD", "YYYY-MM-DD HH:mm",
+ * "YYYY-MM-DD HH:mm:ss" with any number of fractional second digits, with a
+ * space or "T" separator, and an optional "Z" or "+HH:mm" / "+HHmm" / "+HH"
+ * offset. Timestamps without an offset are read in the source time zone.
+ * @param value Timestamp string
+ * @returns Milliseconds since epoch, or undefined if the value isn't a timestamp
+ */
+export function parseTimestamp(value: string): number | undefined {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const wallClockMs = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour || 0),
+    Number(minute || 0),
+    Number(second || 0),
+    Number((fraction || "0").slice(0, 3).padEnd(3, "0"))
+  );
+
+  if (!offset) {
+    return zonedTimeToEpoch(wallClockMs, timeZones.sourceTimeZone);
+  }
+  if (offset.toUpperCase() === "Z") {
+    return wallClockMs;
+  }
+
+  const digits = offset.slice(1).replace(":", "");
+  const offsetMinutes =
+    Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  const sign = offset[0] === "-" ? -1 : 1;
+  return wallClockMs - sign * offsetMinutes * 60000;
+}
+
+/**
+ * Format the calendar date of an instant in the reporting time zone
+ * @param epochMs Milliseconds since epoch
+ * @returns Date in YYYY-MM-DD format
+ */
+export function formatReportingDate(epochMs: number): string {
+  return new Date(getWallClockTime(epochMs, timeZones.reportingTimeZone))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Milliseconds since epoch of a YYYY-MM-DD date at UTC midnight
+const toUtcTime = (date: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
 
 /**
  * Calculate start date for a historical analysis period
@@ -10,21 +185,202 @@ export function calculatePreviousPeriodStartDate(
   currentDate: string,
   lookbackDays: number = 30
 ): string {
-  const currentDateObj = new Date(currentDate);
-  const pastDateObj = new Date(currentDateObj);
-  pastDateObj.setDate(currentDateObj.getDate() - lookbackDays);
+  // Calendar arithmetic in UTC, so the host time zone and DST don't matter
+  const pastDateObj = new Date(
+    toUtcTime(currentDate) - lookbackDays * 86400000
+  );
 
   // Format the past date as YYYY-MM-DD
   return pastDateObj.toISOString().split("T")[0];
 }
 
 /**
- * Extract the date part from a datetime string
+ * Shift a date by a number of days
+ * @param date Date in YYYY-MM-DD format
+ * @param days Number of days to add (negative to go back)
+ * @returns The shifted date in YYYY-MM-DD format
+ */
+export function addDays(date: string, days: number): string {
+  return calculatePreviousPeriodStartDate(date, -days);
+}
+
+/**
+ * Count whole days between two dates
+ * @param startDate Start date in YYYY-MM-DD format
+ * @param endDate End date in YYYY-MM-DD format
+ * @returns Number of days from startDate to endDate (negative if endDate is earlier)
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((toUtcTime(endDate) - toUtcTime(startDate)) / 86400000);
+}
+
+/**
+ * Get the first day of the period (day, ISO week or month) containing a date
+ * @param date Date in YYYY-MM-DD format
+ * @param granularity Length of the period
+ * @returns Start date of the period in YYYY-MM-DD format
+ */
+export function getPeriodStart(
+  date: string,
+  granularity: "daily" | "weekly" | "monthly"
+): string {
+  if (granularity === "monthly") {
+    return `${date.slice(0, 7)}-01`;
+  }
+
+  if (granularity === "weekly") {
+    // Weeks start on Monday
+    const dayOfWeek = new Date(toUtcTime(date)).getUTCDay();
+    return addDays(date, -((dayOfWeek + 6) % 7));
+  }
+
+  return date;
+}
+
+export const COMPARISON_MODES: ComparisonMode[] = [
+  "day_over_day",
+  "week_over_week",
+  "rolling",
+  "month_to_date",
+  "custom",
+];
+
+const DATE_RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+/**
+ * Parse an inclusive range of dates written as "YYYY-MM-DD..YYYY-MM-DD"
+ * @param value Range with both ends included
+ * @returns Range with an exclusive end date
+ * @throws Error if the value isn't a range or ends before it starts
+ */
+export function parseDateRange(value: string): DateRange {
+  const match = DATE_RANGE_PATTERN.exec(value.trim());
+  if (!match || match[2] < match[1]) {
+    throw new Error(
+      `Invalid date range: ${value}. Expected YYYY-MM-DD..YYYY-MM-DD`
+    );
+  }
+  return { startDate: match[1], endDate: addDays(match[2], 1) };
+}
+
+/**
+ * Format a range of dates for logs and prompts, with both ends included
+ * @param range Range with an exclusive end date
+ * @returns "YYYY-MM-DD to YYYY-MM-DD", or a single date for one-day ranges
+ */
+export function formatDateRange(range: DateRange): string {
+  const lastDate = addDays(range.endDate, -1);
+  return lastDate === range.startDate
+    ? range.startDate
+    : `${range.startDate} to ${lastDate}`;
+}
+
+/**
+ * Define the current and previous periods of a comparison mode
+ * @param date Analysis date, the last day of the current period (except in custom mode)
+ * @param mode Comparison mode
+ * @param rollingDays Length of both periods in rolling mode
+ * @param customRanges Inclusive "YYYY-MM-DD..YYYY-MM-DD" ranges used in custom mode
+ * @returns Current and previous periods
+ * @throws Error if the mode is unknown or its ranges are missing or invalid
+ */
+export function getComparisonWindows(
+  date: string,
+  mode: string,
+  rollingDays: number,
+  customRanges: { current?: string; previous?: string } = {}
+): ComparisonWindows {
+  const endDate = addDays(date, 1);
+
+  switch (mode) {
+    case "day_over_day":
+      return {
+        mode,
+        current: { startDate: date, endDate },
+        previous: { startDate: addDays(date, -1), endDate: date },
+      };
+    case "week_over_week":
+      return {
+        mode,
+        current: { startDate: date, endDate },
+        previous: { startDate: addDays(date, -7), endDate: addDays(date, -6) },
+      };
+    case "rolling": {
+      if (!Number.isInteger(rollingDays) || rollingDays < 1) {
+        throw new Error(
+          `Invalid rolling comparison length: ${rollingDays} days`
+        );
+      }
+      const startDate = addDays(endDate, -rollingDays);
+      return {
+        mode,
+        current: { startDate, endDate },
+        previous: {
+          startDate: addDays(startDate, -rollingDays),
+          endDate: startDate,
+        },
+      };
+    }
+    case "month_to_date": {
+      const startDate = getPeriodStart(date, "monthly");
+      const previousStart = getPeriodStart(addDays(startDate, -1), "monthly");
+      // Shorter previous months are compared in full
+      const previousEnd = addDays(
+        previousStart,
+        daysBetween(startDate, endDate)
+      );
+      return {
+        mode,
+        current: { startDate, endDate },
+        previous: {
+          startDate: previousStart,
+          endDate: previousEnd < startDate ? previousEnd : startDate,
+        },
+      };
+    }
+    case "custom": {
+      if (!customRanges.current || !customRanges.previous) {
+        throw new Error(
+          "Custom comparison mode requires a current and a previous period"
+        );
+      }
+      return {
+        mode,
+        current: parseDateRange(customRanges.current),
+        previous: parseDateRange(customRanges.previous),
+      };
+    }
+    default:
+      throw new Error(
+        `Unknown comparison mode: ${mode}. Available modes: ${COMPARISON_MODES.join(
+          ", "
+        )}`
+      );
+  }
+}
+
+/**
+ * Extract the calendar date of a datetime string in the reporting time zone.
+ * Plain dates are calendar days already and are returned unchanged.
  * @param dateTimeStr DateTime string in any format that includes the date
- * @returns Date part of the string in YYYY-MM-DD format
+ * @returns Date in YYYY-MM-DD format
  */
 export function extractDatePart(dateTimeStr: string): string {
-  return dateTimeStr.split(" ")[0]; // Get just the date part
+  const value = dateTimeStr.trim();
+  const datePart = value.slice(0, 10);
+
+  // Plain dates, and naive timestamps already in the reporting time zone,
+  // don't need to be parsed
+  const hasOffset = /(Z|[+-]\d{2}(:?\d{2})?)$/i.test(value.slice(11));
+  if (
+    value.length <= 10 ||
+    (!hasOffset && timeZones.sourceTimeZone === timeZones.reportingTimeZone)
+  ) {
+    return datePart;
+  }
+
+  const epochMs = parseTimestamp(value);
+  return epochMs === undefined ? datePart : formatReportingDate(epochMs);
 }
 
 /**
@@ -112,6 +468,59 @@ export function filterSourceDataByDateRange(
   endDate: string
 ): SourceData[] {
   return sourceData.filter((sd) => {
-    return sd.date >= startDate && sd.date < endDate;
+    const sdDate = extractDatePart(sd.date);
+    return sdDate >= startDate && sdDate < endDate;
   });
 }
+
+/**
+ * Restrict the dated records of a dataset to a date range. Atoms and
+ * lead-contact links have no date and are kept as they are.
+ * @param data Dataset, or the dated part of one
+ * @param range Range to keep (start inclusive, end exclusive)
+ * @returns The records inside the range
+ */
+export function filterDataSetByDateRange<
+  T extends Pick<
+    DataSet,
+    "sessions" | "leads" | "contacts" | "transactions" | "sourceData"
+  >
+>(data: T, range: DateRange): T {
+  return {
+    ...data,
+    sessions: filterSessionsByDateRange(
+      data.sessions,
+      range.startDate,
+      range.endDate
+    ),
+    leads: filterLeadsByDateRange(data.leads, range.startDate, range.endDate),
+    contacts: filterContactsByDateRange(
+      data.contacts,
+      range.startDate,
+      range.endDate
+    ),
+    transactions: filterTransactionsByDateRange(
+      data.transactions,
+      range.startDate,
+      range.endDate
+    ),
+    sourceData: filterSourceDataByDateRange(
+      data.sourceData,
+      range.startDate,
+      range.endDate
+    ),
+  };
+}
+
+/**
+ * Check whether a date falls in any of the given ranges
+ * @param date Date or datetime string starting with YYYY-MM-DD
+ * @param ranges Ranges to check (start inclusive, end exclusive)
+ * @returns True if the date is inside at least one range
+ */
+export function isDateInRanges(date: string, ranges: DateRange[]): boolean {
+  const datePart = extractDatePart(date);
+  return ranges.some(
+    (range) => datePart >= range.startDate && datePart < range.endDate
+  );
+}
@@ -0,0 +1,184 @@
+import { DataSet, DataSetName, DedupKeep, DedupReport } from "../types";
+import { ENTITY_SCHEMAS } from "./entity-schemas";
+
+export const DEDUP_KEEP_OPTIONS: DedupKeep[] = ["first", "last"];
+
+// Fields identifying a record of each dataset; rows sharing them are
+// duplicates. An atom can have several spend rows a day, so only identical
+// spend rows are duplicates by default.
+export const DEFAULT_DEDUP_KEYS: Record<DataSetName, string[]> = {
+  sessions: ["id"],
+  leads: ["id"],
+  contacts: ["id"],
+  contact2Leads: ["leadId", "contactId"],
+  transactions: ["id"],
+  sourceData: Object.keys(ENTITY_SCHEMAS.sourceData),
+  atoms: ["atomId"],
+};
+
+// Duplicated keys quoted in each report
+const MAX_SAMPLE_KEYS = 10;
+
+/**
+ * Parse per-dataset dedup keys written as "dataset=field+field;dataset=field".
+ * An empty key list turns deduplication off for that dataset.
+ * @param value Keys, e.g. "sourceData=date+atomId;sessions="
+ * @returns Keys of the datasets listed
+ * @throws Error if a dataset or field is unknown
+ */
+export function parseDedupKeys(
+  value: string
+): Partial<Record<DataSetName, string[]>> {
+  const keys: Partial<Record<DataSetName, string[]>> = {};
+  value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .forEach((entry) => {
+      const [name, fields = ""] = entry.split("=").map((part) => part.trim());
+      if (!(name in ENTITY_SCHEMAS)) {
+        throw new Error(
+          `Invalid dedup keys: ${entry}. Unknown dataset ${name}, expected one of ${Object.keys(
+            ENTITY_SCHEMAS
+          ).join(", ")}`
+        );
+      }
+      const dataset = name as DataSetName;
+      const keyFields = fields
+        .split("+")
+        .map((field) => field.trim())
+        .filter((field) => field.length > 0);
+      keyFields.forEach((field) => {
+        if (!(field in ENTITY_SCHEMAS[dataset])) {
+          throw new Error(
+            `Invalid dedup keys: ${entry}. ${dataset} has no field ${field}`
+          );
+        }
+      });
+      keys[dataset] = keyFields;
+    });
+  return keys;
+}
+
+// Amount a removed record takes out of revenue or spend
+const amountOf = (dataset: DataSetName, record: object) => {
+  if (dataset === "transactions") {
+    return {
+      revenue: (record as DataSet["transactions"][number])
+        .paidSumOriginalCurrency,
+      spend: 0,
+    };
+  }
+  if (dataset === "sourceData") {
+    return {
+      revenue: 0,
+      spend: (record as DataSet["sourceData"][number]).budgetSpent,
+    };
+  }
+  return { revenue: 0, spend: 0 };
+};
+
+/**
+ * Drop records of one dataset that repeat the key of another record.
+ * Records with every key field empty can't be matched and are always kept.
+ */
+function deduplicateRecords<T extends object>(
+  dataset: DataSetName,
+  records: T[],
+  keys: string[],
+  keep: DedupKeep,
+  source: string
+): { records: T[]; report: DedupReport } {
+  const report: DedupReport = {
+    dataset,
+    source,
+    keys,
+    keep,
+    totalRows: records.length,
+    duplicateRows: 0,
+    duplicateKeys: 0,
+    revenueAffected: dataset === "transactions" ? 0 : null,
+    spendAffected: dataset === "sourceData" ? 0 : null,
+    sampleKeys: [],
+  };
+  if (keys.length === 0) return { records, report };
+
+  const keyOf = (record: T) => {
+    const values = keys.map((field) => {
+      const value = (record as Record<string, unknown>)[field];
+      return value === undefined || value === null ? "" : String(value).trim();
+    });
+    return values.every((value) => value === "") ? undefined : values;
+  };
+
+  // Index of the record kept for each key
+  const keptIndex = new Map<string, number>();
+  const duplicated = new Map<string, string[]>();
+  records.forEach((record, i) => {
+    const values = keyOf(record);
+    if (!values) return;
+    const key = JSON.stringify(values);
+    if (keptIndex.has(key)) {
+      duplicated.set(key, values);
+      if (keep === "first") return;
+    }
+    keptIndex.set(key, i);
+  });
+
+  const kept = new Set(keptIndex.values());
+  const deduplicated = records.filter((record, i) => {
+    if (keyOf(record) === undefined || kept.has(i)) return true;
+    const { revenue, spend } = amountOf(dataset, record);
+    if (report.revenueAffected !== null) report.revenueAffected += revenue;
+    if (report.spendAffected !== null) report.spendAffected += spend;
+    return false;
+  });
+
+  report.duplicateRows = records.length - deduplicated.length;
+  report.duplicateKeys = duplicated.size;
+  report.sampleKeys = [...duplicated.values()]
+    .slice(0, MAX_SAMPLE_KEYS)
+    .map((values) => values.join("+"));
+
+  return { records: deduplicated, report };
+}
+
+/**
+ * Remove repeated records from every dataset, keeping the first or the last
+ * record of each key in load order
+ * @param dataSet Loaded dataset
+ * @param keys Key fields of each dataset; datasets without keys are kept as they are
+ * @param keep Which record of each key is kept
+ * @param source Name of the loaded data, such as its file prefix
+ * @returns Deduplicated dataset with a report per dataset
+ * @throws Error if keep is not "first" or "last"
+ */
+export function deduplicateDataSet(
+  dataSet: DataSet,
+  keys: Partial<Record<DataSetName, string[]>>,
+  keep: DedupKeep,
+  source: string
+): { dataSet: DataSet; reports: DedupReport[] } {
+  if (!DEDUP_KEEP_OPTIONS.includes(keep)) {
+    throw new Error(
+      `Unknown dedup keep option: ${keep}. Expected one of ${DEDUP_KEEP_OPTIONS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const deduplicated: Partial<Record<DataSetName, unknown[]>> = {};
+  const reports = (Object.keys(dataSet) as DataSetName[]).map((dataset) => {
+    const result = deduplicateRecords<object>(
+      dataset,
+      dataSet[dataset],
+      keys[dataset] ?? [],
+      keep,
+      source
+    );
+    deduplicated[dataset] = result.records;
+    return result.report;
+  });
+
+  return { dataSet: deduplicated as DataSet, reports };
+}
@@ -0,0 +1,188 @@
+import {
+  Session,
+  Lead,
+  Contact,
+  Contact2Lead,
+  Transaction,
+  SourceData,
+  Atom,
+  DataSet,
+  DataSetName,
+  DataSetRecord,
+} from "../types";
+import { EntitySchema } from "./schema-validation";
+
+// Column headers are matched case-insensitively, so each list only needs the
+// spellings that differ by more than case.
+
+// Person ids are resolved after loading rather than read from the files
+export type FileFields<T> = Omit<T, "personId">;
+
+export const sessionSchema: EntitySchema<FileFields<Session>> = {
+  id: { headers: ["id", "SessionId"], type: "string", required: true },
+  mcid: { headers: ["Mcid", "McId"], type: "string" },
+  userPseudoId: { headers: ["UserPseudoId"], type: "string", required: true },
+  gaSessionId: { headers: ["GaSessionId"], type: "string", default: "" },
+  datetimeShifted: {
+    headers: ["DatetimeShifted"],
+    type: "string",
+    required: true,
+  },
+  deviceCategory: { headers: ["DeviceCategory"], type: "string", default: "" },
+  deviceMobileBrandName: { headers: ["DeviceMobileBrandName"], type: "string" },
+  deviceMobileModelName: { headers: ["DeviceMobileModelName"], type: "string" },
+  deviceOperatingSystem: {
+    headers: ["DeviceOperatingSystem"],
+    type: "string",
+    default: "",
+  },
+  deviceOperatingSystemVersion: {
+    headers: ["DeviceOperatingSystemVersion"],
+    type: "string",
+  },
+  geoCountry: { headers: ["GeoCountry"], type: "string", default: "" },
+  geoRegion: { headers: ["GeoRegion"], type: "string", default: "" },
+  geoCity: { headers: ["GeoCity"], type: "string", default: "" },
+  geoSubContinent: { headers: ["GeoSubContinent"], type: "string" },
+  geoMetro: { headers: ["GeoMetro"], type: "string" },
+};
+
+export const leadSchema: EntitySchema<FileFields<Lead>> = {
+  id: { headers: ["id", "LeadId"], type: "string", required: true },
+  atomid: { headers: ["atomid", "AtomId"], type: "string", required: true },
+  mcId: { headers: ["McId"], type: "string", required: true },
+  datetimeCreatedShifted: {
+    headers: ["DatetimeCreatedShifted"],
+    type: "string",
+    required: true,
+  },
+  googleClientId: { headers: ["GoogleClientId"], type: "string", default: "" },
+  ch_isFirst4ContactAttribution: {
+    headers: ["ch_isFirst4ContactAttribution"],
+    type: "boolean",
+    default: false,
+  },
+  cohortDate: { headers: ["cohortdate", "CohortDate"], type: "string" },
+};
+
+export const contactSchema: EntitySchema<FileFields<Contact>> = {
+  id: { headers: ["id", "ContactId"], type: "string", required: true },
+  atomid: { headers: ["atomid", "AtomId"], type: "string", required: true },
+  mcId: { headers: ["McId"], type: "string", required: true },
+  datetimeCreatedShifted: {
+    headers: ["DatetimeCreatedShifted"],
+    type: "string",
+    required: true,
+  },
+  googleClientId: { headers: ["GoogleClientId"], type: "string", default: "" },
+  entityCreatedWith: {
+    headers: ["EntityCreatedWith"],
+    type: "string",
+    default: "",
+  },
+  ch_isFirst4ContactAttribution: {
+    headers: ["ch_isFirst4ContactAttribution"],
+    type: "boolean",
+    default: false,
+  },
+  ch_isFirst: { headers: ["ch_isFirst"], type: "boolean", default: false },
+  cohortDate: { headers: ["cohortdate", "CohortDate"], type: "string" },
+};
+
+export const contact2LeadSchema: EntitySchema<Contact2Lead> = {
+  leadId: { headers: ["leadId", "lead_id"], type: "string", required: true },
+  contactId: {
+    headers: ["contactId", "contact_id"],
+    type: "string",
+    required: true,
+  },
+};
+
+export const transactionSchema: EntitySchema<FileFields<Transaction>> = {
+  id: { headers: ["Id", "TransactionId"], type: "string", required: true },
+  atomid: { headers: ["atomid", "AtomId"], type: "string", required: true },
+  mcId: { headers: ["McId"], type: "string", required: true },
+  paymentDatetimeShifted: {
+    headers: ["PaymentDatetimeShifted"],
+    type: "string",
+    required: true,
+  },
+  paidSumOriginalCurrency: {
+    headers: ["PaidSumOriginalCurrency", "PaidSum"],
+    type: "number",
+    required: true,
+  },
+  currency: {
+    headers: ["Currency", "CurrencyCode", "PaidCurrency"],
+    type: "string",
+  },
+  ch_isFirstClientPaid: {
+    headers: ["ch_isFirstClientPaid"],
+    type: "boolean",
+    default: false,
+  },
+  cohortDate: { headers: ["cohortdate", "CohortDate"], type: "string" },
+};
+
+export const sourceDataSchema: EntitySchema<SourceData> = {
+  date: { headers: ["date"], type: "string", required: true },
+  atomId: { headers: ["AtomId", "atomid"], type: "string", required: true },
+  shows: { headers: ["Shows", "Impressions"], type: "number", required: true },
+  budgetSpent: {
+    headers: ["BudgetSpent", "Spend"],
+    type: "number",
+    required: true,
+  },
+  clicks: { headers: ["Clicks"], type: "number", required: true },
+  currency: {
+    headers: ["Currency", "CurrencyCode", "SpendCurrency"],
+    type: "string",
+  },
+};
+
+export const atomSchema: EntitySchema<Atom> = {
+  atomId: { headers: ["AtomId", "atomid"], type: "string", required: true },
+  name: { headers: ["Name"], type: "string", default: "" },
+  sourceName: { headers: ["SourceName"], type: "string", default: "" },
+  sourceGroupName: {
+    headers: ["SourceGroupName"],
+    type: "string",
+    default: "",
+  },
+  groupsOfSourceGroupName: {
+    headers: ["GroupsOfSourceGroupName"],
+    type: "string",
+    default: "",
+  },
+  isPaidName: { headers: ["IsPaidName"], type: "string", default: "" },
+  campaignId: { headers: ["CampaignId"], type: "string" },
+  adsetId: { headers: ["AdsetId"], type: "string" },
+  adId: { headers: ["AdId"], type: "string" },
+  currency: { headers: ["Currency", "CurrencyCode"], type: "string" },
+};
+
+// Schema for each dataset, keyed by its name in DataSet
+export const ENTITY_SCHEMAS: {
+  [K in DataSetName]: EntitySchema<FileFields<DataSetRecord[K]>>;
+} = {
+  sessions: sessionSchema,
+  leads: leadSchema,
+  contacts: contactSchema,
+  contact2Leads: contact2LeadSchema,
+  transactions: transactionSchema,
+  sourceData: sourceDataSchema,
+  atoms: atomSchema,
+};
+
+// Field holding each dataset's date, used for date-windowed loads and daily
+// aggregates. Datasets without one (atoms, contact2Leads) are always loaded
+// in full.
+export const DATASET_DATE_FIELDS: {
+  [K in DataSetName]?: keyof DataSet[K][number] & string;
+} = {
+  sessions: "datetimeShifted",
+  leads: "datetimeCreatedShifted",
+  contacts: "datetimeCreatedShifted",
+  transactions: "paymentDatetimeShifted",
+  sourceData: "date",
+};
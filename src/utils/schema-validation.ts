@@ -0,0 +1,239 @@
+import { DataSetName, LoadReport } from "../types";
+
+export type FieldType = "string" | "number" | "boolean";
+
+/**
+ * Declarative description of one field of a typed record
+ */
+export interface FieldSchema {
+  // Accepted column names, matched case-insensitively. The first one is the
+  // canonical name used in reports.
+  headers: string[];
+  type: FieldType;
+  // Rows with a missing or unparseable required value are rejected
+  required?: boolean;
+  // Value used when an optional field is missing or unparseable
+  default?: string | number | boolean;
+}
+
+/**
+ * Schema of an entity: one field description per property of the record
+ */
+export type EntitySchema<T> = { [K in keyof T]-?: FieldSchema };
+
+// Maximum number of sample rows kept in a load report
+const MAX_REPORT_SAMPLES = 20;
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "y"]);
+const FALSE_VALUES = new Set(["false", "0", "no", "n"]);
+
+// A decimal comma followed by exactly three digits, such as "1,234", is more
+// likely a thousands separator
+const THOUSANDS_GROUPING = /^[-+]?\d{1,3},\d{3}$/;
+
+// Normalize a column name for case-insensitive matching
+const normalizeHeader = (header: string): string =>
+  header
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .toLowerCase();
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === "";
+
+/**
+ * Coerce a raw value to the type of a field. Numbers may use a decimal comma;
+ * values with more than one separator or with thousands grouping are
+ * ambiguous and can't be parsed.
+ * @returns The coerced value, or undefined if the value can't be parsed
+ */
+export function coerceValue(
+  value: unknown,
+  type: FieldType
+): string | number | boolean | undefined {
+  switch (type) {
+    case "string":
+      return String(value);
+    case "number": {
+      if (typeof value === "number") {
+        return Number.isFinite(value) ? value : undefined;
+      }
+      const text = String(value).trim();
+      const separators = text.match(/[.,]/g)?.length ?? 0;
+      if (separators > 1 || THOUSANDS_GROUPING.test(text)) return undefined;
+      const parsed = Number(text.replace(",", "."));
+      return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Typed records of one dataset together with the report of their load
+ */
+export interface SchemaLoadResult<T> {
+  records: T[];
+  report: LoadReport;
+}
+
+/**
+ * Reads raw rows of one dataset against its schema while keeping a running
+ * load report
+ */
+export interface SchemaReader<T> {
+  // Validate and coerce a raw row; returns undefined if the row was rejected
+  read(row: Record<string, unknown>): T | undefined;
+  // Validate a batch of raw rows and return the accepted records
+  readAll(rows: Record<string, unknown>[]): T[];
+  // Load report for all rows read so far
+  getReport(): LoadReport;
+}
+
+/**
+ * Create a schema reader for a dataset. Column names are resolved per
+ * distinct header set, so rows from several files with slightly different
+ * headers can share one reader.
+ * @param dataset Name of the dataset being loaded
+ * @param schema Schema of the dataset's records
+ * @param source File, directory or table the rows come from
+ * @returns Schema reader
+ */
+export function createSchemaReader<T>(
+  dataset: DataSetName,
+  schema: EntitySchema<T>,
+  source: string
+): SchemaReader<T> {
+  const fields = Object.entries(schema) as [string, FieldSchema][];
+  const columnsByHeaderSet = new Map<string, Map<string, string | undefined>>();
+  const missingColumns = new Map<
+    string,
+    LoadReport["missingColumns"][number]
+  >();
+  const report: LoadReport = {
+    dataset,
+    source,
+    totalRows: 0,
+    acceptedRows: 0,
+    rejectedRows: 0,
+    outOfWindowRows: 0,
+    unparseableValueCount: 0,
+    missingColumns: [],
+    unparseableValues: [],
+    rejectedRowSamples: [],
+  };
+
+  // Map each field to the actual column name present in a row
+  const resolveColumns = (row: Record<string, unknown>) => {
+    const headers = Object.keys(row);
+    const headerSetKey = headers.join("\u0000");
+    const cached = columnsByHeaderSet.get(headerSetKey);
+    if (cached) return cached;
+
+    const headersByName = new Map(
+      headers.map((header) => [normalizeHeader(header), header])
+    );
+
+    const columns = new Map<string, string | undefined>();
+    for (const [field, fieldSchema] of fields) {
+      const column = fieldSchema.headers
+        .map((header) => headersByName.get(normalizeHeader(header)))
+        .find((header) => header !== undefined);
+
+      columns.set(field, column);
+
+      if (column === undefined && !missingColumns.has(field)) {
+        missingColumns.set(field, {
+          field,
+          column: fieldSchema.headers[0],
+          required: Boolean(fieldSchema.required),
+        });
+      }
+    }
+
+    columnsByHeaderSet.set(headerSetKey, columns);
+    return columns;
+  };
+
+  const read = (row: Record<string, unknown>): T | undefined => {
+    const rowNumber = ++report.totalRows;
+    const columns = resolveColumns(row);
+    const record: Record<string, unknown> = {};
+    const reasons: string[] = [];
+
+    for (const [field, fieldSchema] of fields) {
+      const column = columns.get(field);
+      const raw = column === undefined ? undefined : row[column];
+
+      let value: unknown;
+      if (isMissing(raw)) {
+        if (fieldSchema.required) {
+          reasons.push(
+            column === undefined
+              ? `missing required column "${fieldSchema.headers[0]}"`
+              : `missing required value for "${column}"`
+          );
+        }
+        value = fieldSchema.default;
+      } else {
+        value = coerceValue(raw, fieldSchema.type);
+
+        if (value === undefined) {
+          report.unparseableValueCount++;
+          if (report.unparseableValues.length < MAX_REPORT_SAMPLES) {
+            report.unparseableValues.push({
+              row: rowNumber,
+              field,
+              column: column as string,
+              value: String(raw),
+              expectedType: fieldSchema.type,
+            });
+          }
+
+          if (fieldSchema.required) {
+            reasons.push(
+              `"${column}" value "${raw}" is not a valid ${fieldSchema.type}`
+            );
+          }
+          value = fieldSchema.default;
+        }
+      }
+
+      record[field] = value;
+    }
+
+    if (reasons.length > 0) {
+      report.rejectedRows++;
+      if (report.rejectedRowSamples.length < MAX_REPORT_SAMPLES) {
+        report.rejectedRowSamples.push({ row: rowNumber, reasons });
+      }
+      return undefined;
+    }
+
+    report.acceptedRows++;
+    return record as T;
+  };
+
+  return {
+    read,
+    readAll: (rows) => {
+      const records: T[] = [];
+      for (const row of rows) {
+        const record = read(row);
+        if (record !== undefined) records.push(record);
+      }
+      return records;
+    },
+    getReport: () => ({
+      ...report,
+      missingColumns: [...missingColumns.values()],
+      unparseableValues: [...report.unparseableValues],
+      rejectedRowSamples: [...report.rejectedRowSamples],
+    }),
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Standard normal cumulative distribution function
+ * @param z Standard score
+ * @returns P(Z <= z)
+ */
+export function normalCdf(z: number): number {
+  // Abramowitz and Stegun 7.1.26 approximation of erf
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal cumulative distribution function
+ * @param p Probability in (0, 1)
+ * @returns z such that P(Z <= z) = p
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  // Acklam's rational approximation
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Two-sided critical z value for a confidence level
+ * @param confidenceLevel Confidence level, e.g. 0.95
+ */
+export function criticalZ(confidenceLevel: number): number {
+  return normalQuantile(1 - (1 - confidenceLevel) / 2);
+}
+
+/**
+ * Create a deterministic pseudo-random number generator (mulberry32), so
+ * resampling results are reproducible between runs
+ * @param seed Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Value at a quantile of a sorted array, with linear interpolation
+ * @param sorted Values sorted ascending
+ * @param q Quantile in [0, 1]
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Draw a bootstrap resample (with replacement) of an array
+ */
+export function resample<T>(values: T[], random: () => number): T[] {
+  return values.map(() => values[Math.floor(random() * values.length)]);
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface DifferenceTestResult {
+  difference: number; // a - b
+  relativeDifference: number; // (a - b) / b, as a percentage
+  confidenceInterval: ConfidenceInterval; // on the difference
+  relativeConfidenceInterval: ConfidenceInterval; // on the relative difference, as percentages
+  pValue: number;
+}
+
+/**
+ * Check whether a difference is significant: its p-value is below the
+ * significance level and its confidence interval excludes zero
+ * @param result Test result, undefined when there was too little data
+ * @param confidenceLevel Confidence level, e.g. 0.95
+ */
+export function isSignificantDifference(
+  result: DifferenceTestResult | undefined,
+  confidenceLevel: number
+): boolean {
+  if (!result) return false;
+
+  const { lower, upper } = result.confidenceInterval;
+  return result.pValue < 1 - confidenceLevel && (lower > 0 || upper < 0);
+}
+
+/**
+ * Two-proportion z-test comparing the rates x1 / n1 and x2 / n2
+ * @param confidenceLevel Confidence level of the returned intervals
+ * @returns Test result, or undefined if either sample is empty
+ */
+export function twoProportionTest(
+  x1: number,
+  n1: number,
+  x2: number,
+  n2: number,
+  confidenceLevel: number
+): DifferenceTestResult | undefined {
+  if (n1 <= 0 || n2 <= 0) return undefined;
+
+  const p1 = Math.min(x1, n1) / n1;
+  const p2 = Math.min(x2, n2) / n2;
+  const difference = p1 - p2;
+  const z = criticalZ(confidenceLevel);
+
+  // Pooled standard error for the test, unpooled for the interval
+  const pooled = (Math.min(x1, n1) + Math.min(x2, n2)) / (n1 + n2);
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  const se = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2);
+
+  const pValue =
+    pooledSe > 0
+      ? 2 * (1 - normalCdf(Math.abs(difference) / pooledSe))
+      : difference === 0
+      ? 1
+      : 0;
+
+  // Relative difference interval from the log of the rate ratio
+  let relativeConfidenceInterval = { lower: NaN, upper: NaN };
+  if (p1 > 0 && p2 > 0) {
+    const logRatio = Math.log(p1 / p2);
+    const logSe = Math.sqrt((1 - p1) / (p1 * n1) + (1 - p2) / (p2 * n2));
+    relativeConfidenceInterval = {
+      lower: (Math.exp(logRatio - z * logSe) - 1) * 100,
+      upper: (Math.exp(logRatio + z * logSe) - 1) * 100,
+    };
+  }
+
+  return {
+    difference,
+    relativeDifference: p2 > 0 ? (difference / p2) * 100 : 0,
+    confidenceInterval: {
+      lower: difference - z * se,
+      upper: difference + z * se,
+    },
+    relativeConfidenceInterval,
+    pValue,
+  };
+}
+
+/**
+ * Bootstrap comparison of a statistic between two samples. Each sample is
+ * resampled independently and the statistic is recomputed on the resamples.
+ * @param a Units of the first sample (e.g. days)
+ * @param b Units of the second sample
+ * @param statistic Statistic computed over a set of units (e.g. a ratio of sums)
+ * @param confidenceLevel Confidence level of the returned intervals
+ * @param iterations Number of bootstrap resamples
+ * @param seed Seed of the resampling, for reproducible results
+ * @returns Test result, or undefined if either sample has fewer than two units or the statistic is undefined
+ */
+export function bootstrapDifferenceTest<T>(
+  a: T[],
+  b: T[],
+  statistic: (units: T[]) => number,
+  confidenceLevel: number,
+  iterations: number,
+  seed = 42
+): DifferenceTestResult | undefined {
+  // A single unit always resamples to itself, so it has no variability
+  if (a.length < 2 || b.length < 2) return undefined;
+
+  const valueA = statistic(a);
+  const valueB = statistic(b);
+  if (!Number.isFinite(valueA) || !Number.isFinite(valueB)) return undefined;
+
+  const random = createSeededRandom(seed);
+  const differences: number[] = [];
+  const relativeDifferences: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const resampledA = statistic(resample(a, random));
+    const resampledB = statistic(resample(b, random));
+    if (!Number.isFinite(resampledA) || !Number.isFinite(resampledB)) continue;
+
+    differences.push(resampledA - resampledB);
+    if (resampledB !== 0) {
+      relativeDifferences.push(((resampledA - resampledB) / resampledB) * 100);
+    }
+  }
+
+  if (differences.length === 0) return undefined;
+
+  differences.sort((x, y) => x - y);
+  relativeDifferences.sort((x, y) => x - y);
+  const alpha = 1 - confidenceLevel;
+
+  // Two-sided p-value from the share of resamples on either side of zero
+  const belowZero = differences.filter((d) => d <= 0).length;
+  const aboveZero = differences.filter((d) => d >= 0).length;
+  const pValue = Math.min(
+    1,
+    (2 * Math.min(belowZero, aboveZero)) / differences.length
+  );
+
+  return {
+    difference: valueA - valueB,
+    relativeDifference: valueB !== 0 ? ((valueA - valueB) / valueB) * 100 : 0,
+    confidenceInterval: {
+      lower: quantile(differences, alpha / 2),
+      upper: quantile(differences, 1 - alpha / 2),
+    },
+    relativeConfidenceInterval: {
+      lower: quantile(relativeDifferences, alpha / 2),
+      upper: quantile(relativeDifferences, 1 - alpha / 2),
+    },
+    pValue,
+  };
+}
+
+/**
+ * Median of an array of values
+ * @returns The median, or NaN for an empty array
+ */
+export function median(values: number[]): number {
+  return quantile(
+    [...values].sort((a, b) => a - b),
+    0.5
+  );
+}
+
+/**
+ * Median absolute deviation from the median, scaled by 1.4826 so it
+ * estimates the standard deviation of normally distributed values
+ * @returns The scaled MAD, or NaN for an empty array
+ */
+export function scaledMad(values: number[]): number {
+  const center = median(values);
+  return 1.4826 * median(values.map((value) => Math.abs(value - center)));
+}
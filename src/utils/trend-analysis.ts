@@ -2,75 +2,162 @@ import {
   Session,
   Lead,
   Contact,
+  Contact2Lead,
   Transaction,
-  SourceData,
   Atom,
+  ChannelDistributionAnalysis,
+  ConversionAnalysis,
+  MetricAggregation,
+  MetricChange,
+  MetricDefinition,
+  MetricResult,
 } from "../types";
 import {
-  calculateROAS,
-  calculateCAC,
-  isChangeSigificant,
   calculateConversionRates,
   analyzeChannelDistribution,
 } from "../services/data-analysis";
+import {
+  aggregateAtomDays,
+  aggregateDays,
+  aggregatePeriod,
+  computeMetric,
+  MetricPeriodData,
+  MetricTotals,
+} from "../services/metric-registry";
+import {
+  bootstrapDifferenceTest,
+  DifferenceTestResult,
+  isSignificantDifference,
+  twoProportionTest,
+} from "./statistics";
 
 /**
- * Calculate historical metrics comparison for ROAS and CAC
- * @param currentTransactions Current period transactions
- * @param currentSourceData Current period source data
- * @param previousTransactions Previous period transactions
- * @param previousSourceData Previous period source data
- * @returns Object containing both current and historical ROAS and CAC metrics with change analysis
+ * Describe the change of a metric between two periods from a significance test
+ * @param current Current period value
+ * @param previous Previous period value
+ * @param result Test of current against previous, undefined without enough data
+ * @param confidenceLevel Confidence level of the intervals, e.g. 0.95
+ * @param scale Factor applied to the difference and its interval (e.g. 100 for rates in percent)
  */
-export function calculateMetricsTrend(
-  currentTransactions: Transaction[],
-  currentSourceData: SourceData[],
-  previousTransactions: Transaction[],
-  previousSourceData: SourceData[]
-) {
-  // Calculate current metrics
-  const currentROAS = calculateROAS(currentTransactions, currentSourceData);
-  const currentCAC = calculateCAC(currentTransactions, currentSourceData);
+function toMetricChange(
+  current: number,
+  previous: number,
+  result: DifferenceTestResult | undefined,
+  confidenceLevel: number,
+  scale = 1
+): MetricChange {
+  return {
+    current,
+    previous,
+    percentageChange:
+      previous > 0 ? ((current - previous) / previous) * 100 : 0,
+    isSignificant: isSignificantDifference(result, confidenceLevel),
+    tested: result !== undefined,
+    pValue: result?.pValue ?? 1,
+    confidenceInterval: result
+      ? {
+          lower: result.confidenceInterval.lower * scale,
+          upper: result.confidenceInterval.upper * scale,
+        }
+      : { lower: NaN, upper: NaN },
+    relativeConfidenceInterval: result?.relativeConfidenceInterval ?? {
+      lower: NaN,
+      upper: NaN,
+    },
+  };
+}
 
-  // Calculate previous metrics (if data available)
-  const previousROAS =
-    previousTransactions.length > 0 && previousSourceData.length > 0
-      ? calculateROAS(previousTransactions, previousSourceData)
-      : 0;
+/**
+ * Calculate historical comparison of the configured metrics. Each metric's
+ * change is tested with its significance method: bootstrap confidence
+ * intervals over daily totals, or a two-proportion z-test over the period
+ * counts, so periods with few days or conversions need a larger change to
+ * count. When a period has fewer than two days, as in a day-over-day
+ * comparison, the bootstrap resamples totals per atom and day and single
+ * sessions instead. Changes without enough data for either are marked as not
+ * tested.
+ * @param current Current period records
+ * @param previous Previous period records
+ * @param definitions Metrics to compare
+ * @param confidenceLevel Confidence level of the intervals, e.g. 0.95
+ * @param bootstrapIterations Number of bootstrap resamples
+ * @returns Current and previous value of each metric with change analysis
+ */
+export function calculateMetricsTrend(
+  current: MetricPeriodData,
+  previous: MetricPeriodData,
+  definitions: MetricDefinition[],
+  confidenceLevel: number,
+  bootstrapIterations: number
+): Omit<MetricResult, "decomposition" | "possibleReasons">[] {
+  const currentTotals = aggregatePeriod(current);
+  const previousTotals = aggregatePeriod(previous);
 
-  const previousCAC =
-    previousTransactions.length > 0 && previousSourceData.length > 0
-      ? calculateCAC(previousTransactions, previousSourceData)
-      : 0;
+  // Resample days of both periods, or the records within them when a single
+  // day can't vary
+  let currentUnits = aggregateDays(current);
+  let previousUnits = aggregateDays(previous);
+  if (currentUnits.length < 2 || previousUnits.length < 2) {
+    currentUnits = aggregateAtomDays(current);
+    previousUnits = aggregateAtomDays(previous);
+  }
 
-  // Calculate percentage changes
-  const roasPercentageChange =
-    previousROAS > 0 ? ((currentROAS - previousROAS) / previousROAS) * 100 : 0;
+  return definitions.map((definition) => {
+    const { numerator, denominator, scale } = definition;
 
-  const cacPercentageChange =
-    previousCAC > 0 ? ((currentCAC - previousCAC) / previousCAC) * 100 : 0;
+    let result: DifferenceTestResult | undefined;
+    if (definition.significance === "two_proportion") {
+      result = twoProportionTest(
+        currentTotals[numerator],
+        currentTotals[denominator],
+        previousTotals[numerator],
+        previousTotals[denominator],
+        confidenceLevel
+      );
+    } else {
+      // Ratio of the sums of the resampled units, NaN without a denominator
+      const statistic = (units: MetricTotals[]) => {
+        const sum = (key: MetricAggregation) =>
+          units.reduce((total, unit) => total + unit[key], 0);
+        return sum(denominator) > 0
+          ? (sum(numerator) / sum(denominator)) * scale
+          : NaN;
+      };
+      result = bootstrapDifferenceTest(
+        currentUnits,
+        previousUnits,
+        statistic,
+        confidenceLevel,
+        bootstrapIterations
+      );
+    }
 
-  // Determine if changes are significant
-  const roasSignificant =
-    previousROAS > 0 ? isChangeSigificant(currentROAS, previousROAS) : false;
+    const change = toMetricChange(
+      computeMetric(definition, currentTotals),
+      computeMetric(definition, previousTotals),
+      result,
+      confidenceLevel,
+      definition.significance === "two_proportion" ? scale : 1
+    );
 
-  const cacSignificant =
-    previousCAC > 0 ? isChangeSigificant(currentCAC, previousCAC) : false;
+    const improved =
+      definition.direction === "higher_is_better"
+        ? change.current > change.previous
+        : change.current < change.previous;
 
-  return {
-    roas: {
-      current: currentROAS,
-      previous: previousROAS,
-      percentageChange: roasPercentageChange,
-      isSignificant: roasSignificant,
-    },
-    cac: {
-      current: currentCAC,
-      previous: previousCAC,
-      percentageChange: cacPercentageChange,
-      isSignificant: cacSignificant,
-    },
-  };
+    return {
+      id: definition.id,
+      name: definition.name,
+      direction: definition.direction,
+      format: definition.format,
+      ...change,
+      assessment: !change.isSignificant
+        ? "no_significant_change"
+        : improved
+        ? "improved"
+        : "worsened",
+    };
+  });
 }
 
 /**
@@ -83,7 +170,9 @@ export function calculateMetricsTrend(
  * @param previousLeads Previous period leads
  * @param previousContacts Previous period contacts
  * @param previousTransactions Previous period transactions
- * @returns Conversion rates with historical comparison
+ * @param contact2Leads Lead to contact links (invariant)
+ * @param confidenceLevel Confidence level of the z-test intervals, e.g. 0.95
+ * @returns Conversion rates and unlinked contacts with historical comparison
  */
 export function calculateConversionsTrend(
   currentSessions: Session[],
@@ -93,14 +182,17 @@ export function calculateConversionsTrend(
   previousSessions: Session[],
   previousLeads: Lead[],
   previousContacts: Contact[],
-  previousTransactions: Transaction[]
-) {
+  previousTransactions: Transaction[],
+  contact2Leads: Contact2Lead[],
+  confidenceLevel: number
+): Omit<ConversionAnalysis, "insights"> {
   // Calculate current conversions
   const currentConversions = calculateConversionRates(
     currentSessions,
     currentLeads,
     currentContacts,
-    currentTransactions
+    currentTransactions,
+    contact2Leads
   );
 
   // Calculate previous conversions
@@ -108,57 +200,84 @@ export function calculateConversionsTrend(
     previousSessions,
     previousLeads,
     previousContacts,
-    previousTransactions
+    previousTransactions,
+    contact2Leads
   );
 
-  // Combine current data with previous data
-  return currentConversions.map((stage, index) => {
-    const previousStage = previousConversions[index];
+  // Combine current data with previous data, testing each rate change
+  // against the number of entities behind it
+  const stages = currentConversions.stages.map((stage, index) => {
+    const previousStage = previousConversions.stages[index];
     const previous = previousStage ? previousStage.current : 0;
+    const previousCounts = previousStage
+      ? previousStage.currentCounts
+      : { converted: 0, total: 0 };
 
-    // Calculate percentage change
-    const percentageChange =
-      previous > 0 ? ((stage.current - previous) / previous) * 100 : 0;
-
-    // Check if change is significant
-    const isSignificant =
-      previous > 0 ? isChangeSigificant(stage.current, previous) : false;
+    const result = twoProportionTest(
+      stage.currentCounts.converted,
+      stage.currentCounts.total,
+      previousCounts.converted,
+      previousCounts.total,
+      confidenceLevel
+    );
 
     return {
       ...stage,
-      previous,
-      percentageChange,
-      isSignificant,
+      ...toMetricChange(stage.current, previous, result, confidenceLevel, 100),
+      previousCounts,
     };
   });
+
+  return {
+    stages,
+    unlinkedContacts: {
+      current: currentConversions.unlinkedContacts,
+      previous: previousConversions.unlinkedContacts,
+    },
+    linkSource: currentConversions.linkSource,
+  };
 }
 
 /**
  * Calculate historical comparison for channel distribution
  * @param currentSessions Current period sessions
  * @param previousSessions Previous period sessions
+ * @param leads Leads, mapping users to atoms (invariant)
+ * @param contacts Contacts, mapping users to atoms (invariant)
  * @param atoms Atoms data (invariant)
- * @returns Channel distribution with historical comparison
+ * @returns Channel distribution and session attribution with historical comparison
  */
 export function calculateChannelsTrend(
   currentSessions: Session[],
   previousSessions: Session[],
+  leads: Lead[],
+  contacts: Contact[],
   atoms: Atom[]
-) {
+): Omit<ChannelDistributionAnalysis, "insights"> {
   // Analyze current channel distribution
-  const currentChannels = analyzeChannelDistribution(currentSessions, atoms);
+  const current = analyzeChannelDistribution(
+    currentSessions,
+    leads,
+    contacts,
+    atoms
+  );
 
   // Analyze previous channel distribution
-  const previousChannels = analyzeChannelDistribution(previousSessions, atoms);
+  const previous = analyzeChannelDistribution(
+    previousSessions,
+    leads,
+    contacts,
+    atoms
+  );
 
   // Create a map for easier lookup of previous data
   const previousChannelMap = new Map();
-  previousChannels.forEach((channel) => {
+  previous.channels.forEach((channel) => {
     previousChannelMap.set(channel.name, channel.current);
   });
 
   // Combine current and previous data
-  return currentChannels.map((currentChannel) => {
+  const channels = current.channels.map((currentChannel) => {
     const previousData = previousChannelMap.get(currentChannel.name) || {
       sessions: 0,
       percentage: 0,
@@ -177,4 +296,12 @@ export function calculateChannelsTrend(
       change,
     };
   });
+
+  return {
+    channels,
+    sessionAttribution: {
+      current: { attributed: current.attributed, total: current.total },
+      previous: { attributed: previous.attributed, total: previous.total },
+    },
+  };
 }